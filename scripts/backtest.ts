@@ -0,0 +1,45 @@
+// Replays a fixture of stored game_results through a prediction engine.
+//
+//   npm run backtest -- src/test/fixtures/wingo-30s-history.json --engine follow_last --mode size --seed 42
+import { readFileSync } from "node:fs";
+import { runBacktest } from "../supabase/functions/_shared/backtest.ts";
+import { getEngine, listEngines } from "../supabase/functions/_shared/prediction-engines.ts";
+import { PREDICTION_MODES, type PredictionMode } from "../supabase/functions/_shared/outcome.ts";
+import { seededRandom } from "../supabase/functions/_shared/random.ts";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const file = args.find((a, i) => !a.startsWith("--") && !args[i - 1]?.startsWith("--"));
+if (!file) {
+  console.error("usage: npm run backtest -- <fixture.json> [--engine id|all] [--mode color|size|number] [--seed n] [--warmup n]");
+  process.exit(1);
+}
+
+const results = JSON.parse(readFileSync(file, "utf8"));
+const engineArg = flag("engine") ?? "all";
+const engines = engineArg === "all" ? listEngines() : [getEngine(engineArg)];
+if (engines.some((e) => !e)) {
+  console.error(`Unknown engine "${engineArg}". Available: ${listEngines().map((e) => e.id).join(", ")}`);
+  process.exit(1);
+}
+const modes = flag("mode") ? [flag("mode") as PredictionMode] : PREDICTION_MODES;
+const seed = Number(flag("seed") ?? 1);
+const warmup = Number(flag("warmup") ?? 0);
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+for (const engine of engines) {
+  for (const mode of modes.filter((m) => engine!.modes.includes(m))) {
+    const r = runBacktest(engine!, results, { mode, warmup, random: seededRandom(seed) });
+    console.log(
+      `${r.engine.padEnd(14)} ${mode.padEnd(6)} n=${r.periods} hits=${r.hits} rate=${pct(r.hitRate)} ` +
+        `CI95=[${pct(r.confidenceInterval.lower)}, ${pct(r.confidenceInterval.upper)}] ` +
+        `p=${r.baseline.pValue.toFixed(4)} win-streak=${r.longestWinStreak} loss-streak=${r.longestLossStreak} ` +
+        (r.baseline.beatsBaseline ? "BEATS chance" : "no better than chance"),
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// Serves a stand-in for the WinGo history feed on a simulated clock.
+//
+//   npm run mock-upstream -- --port 8787 --seed 42 --scenario outage --speed 10
+//
+// Point the edge function at it with WINGO_API_BASE_URL=http://host.docker.internal:8787
+// (from `supabase functions serve`) or http://localhost:8787 (from Node).
+import { createServer } from "node:http";
+import {
+  handleMockRequest,
+  MOCK_SCENARIOS,
+  mockStartTime,
+  type MockScenario,
+} from "../supabase/functions/_shared/mock-upstream.ts";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const scenario = (flag("scenario") ?? "steady") as MockScenario;
+if (!MOCK_SCENARIOS.includes(scenario)) {
+  console.error(`Unknown scenario "${scenario}". Available: ${MOCK_SCENARIOS.join(", ")}`);
+  process.exit(1);
+}
+const port = Number(flag("port") ?? 8787);
+const seed = Number(flag("seed") ?? 1);
+// Simulated seconds per real second
+const speed = Number(flag("speed") ?? 1);
+const startedAt = Date.now();
+const start = flag("start") ? Date.parse(flag("start")!) : mockStartTime(scenario, startedAt);
+
+const simulatedNow = () => start + (Date.now() - startedAt) * speed;
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  const now = simulatedNow();
+  const { status, body } = handleMockRequest(url, now, { seed, scenario });
+  console.log(`${new Date(now).toISOString()} ${status} ${url.pathname}${url.search}`);
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}).listen(port, () => {
+  console.log(
+    `Mock WinGo upstream on http://localhost:${port} | scenario=${scenario} seed=${seed} speed=${speed}x ` +
+      `clock=${new Date(start).toISOString()}`,
+  );
+});
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { serverNow, type ServerClock } from "@/lib/server-clock";
+
+interface ClockDebugOverlayProps {
+  clock: ServerClock | null;
+}
+
+const timeOf = (ms: number) => new Date(ms).toISOString().slice(11, 23);
+
+// Shown with ?debug: the measured offset between this device and the database clock
+const ClockDebugOverlay = ({ clock }: ClockDebugOverlayProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, []);
+
+  const offset = clock ? `${clock.offsetMs >= 0 ? "+" : ""}${Math.round(clock.offsetMs)} ms` : "syncing…";
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: 8,
+        bottom: 8,
+        zIndex: 100000,
+        padding: "6px 10px",
+        borderRadius: 8,
+        background: "rgba(0, 0, 0, 0.8)",
+        color: "#9fe8c0",
+        font: "11px/1.5 monospace",
+        pointerEvents: "none",
+      }}
+    >
+      <div>clock offset {offset}</div>
+      {clock && (
+        <div>
+          rtt {Math.round(clock.roundTripMs)} ms · {clock.samples} samples · synced{" "}
+          {Math.round((now - clock.syncedAt) / 1000)}s ago
+        </div>
+      )}
+      <div>device {timeOf(now)} UTC</div>
+      <div>server {timeOf(serverNow())} UTC</div>
+    </div>
+  );
+};
+
+export default ClockDebugOverlay;
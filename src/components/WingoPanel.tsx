@@ -1,72 +1,69 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import { GAME_IDS, GAMES, type GameId, type PredictionMode } from "../../supabase/functions/_shared/domain.ts";
+import { useDraggable } from "@/hooks/use-draggable";
+import { usePeriodClock } from "@/hooks/use-period-clock";
+import { useStreak } from "@/hooks/use-streak";
+import { useWingoFeed, type FeedState } from "@/hooks/use-wingo-feed";
+import {
+  pct,
+  predCss,
+  shortPeriod,
+  STATS_WINDOWS,
+  streakWaitPeriods,
+  summarizeAccuracy,
+  type StatsWindow,
+} from "@/lib/wingo-domain";
 import NeuralNetworkCanvas from "./NeuralNetworkCanvas";
 import "./WingoPanel.css";
 
-interface HistoryRow {
-  issue_number: string;
-  number: number;
-  color: string;
-  premium: string;
-  prediction: string | null;
-  correct: boolean | null;
+interface WingoPanelProps {
+  game: GameId;
+  onGameChange: (game: GameId) => void;
+  // Opens another panel so several games can be followed at once
+  onAddPanel?: () => void;
+  // Extra panels can be closed; the first one owns the show/hide icon
+  onClose?: () => void;
+  // Position in the stack of open panels, used to offset the initial placement
+  stackIndex?: number;
 }
 
-interface AppliedFormula {
-  id: string;
-  type: string;
-  condition: string;
-  prediction: string;
-  confidence: number;
-  support: number;
-  description: string;
+interface ConfettiDot {
+  id: number;
+  left: string;
+  top: string;
+  bg: string;
+  delay: string;
+  duration: string;
+  rotate: string;
 }
 
-const shortPeriod = (p: string) => (p ? p.slice(-8) : "--");
+const FEED_LABEL: Record<FeedState, string> = { connecting: "connecting…", live: "live", polling: "polling" };
 
-const WingoPanel = () => {
+const WingoPanel = ({ game, onGameChange, onAddPanel, onClose, stackIndex = 0 }: WingoPanelProps) => {
   const [visible, setVisible] = useState(true);
-  const [mode, setMode] = useState<"color" | "size">("color");
-  const [history, setHistory] = useState<HistoryRow[]>([]);
-  const [nextPeriod, setNextPeriod] = useState("---");
+  const [mode, setMode] = useState<PredictionMode>("color");
   const [prediction, setPrediction] = useState("---");
   const [predClass, setPredClass] = useState("pred-red");
-  const [countdown, setCountdown] = useState("--s");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [winStreak, setWinStreak] = useState(0);
-  const [newRowIdx, setNewRowIdx] = useState<number | null>(null);
-  const [appliedFormula, setAppliedFormula] = useState<AppliedFormula | null>(null);
-  const [formulaOpen, setFormulaOpen] = useState(false);
-  const lastTopIssueRef = useRef<Record<string, string>>({ color: "", size: "" });
-  const cachedPredRef = useRef<Record<string, string>>({ color: "", size: "" });
-  const prevWinStreakRef = useRef(0);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>("50");
+  const cachedPredRef = useRef<Record<PredictionMode, string>>({ color: "", size: "", number: "" });
   const panelRef = useRef<HTMLDivElement>(null);
   const iconRef = useRef<HTMLDivElement>(null);
   const genTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const [celState, setCelState] = useState<null | 5 | 10>(null);
-  const celTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const [confettiDots, setConfettiDots] = useState<any[]>([]);
-  const lastEdgeTriggerRef = useRef(0);
+  const [confettiDots, setConfettiDots] = useState<ConfettiDot[]>([]);
 
-  // Helper: get seconds remaining in current 30s period (GMT+6)
-  const getSecondsInPeriod = useCallback(() => {
-    const now = new Date();
-    const utc = now.getTime() + now.getTimezoneOffset() * 60000;
-    const gmt6 = new Date(utc + 6 * 3600000);
-    const s = gmt6.getSeconds();
-    return s < 30 ? 30 - s : 60 - s;
-  }, []);
+  const { countdown } = usePeriodClock(game);
+  const { history, nextPeriod, next, stats, feed, hasNewRow } = useWingoFeed(game, mode);
+  const { winStreak, celebration: celState } = useStreak(history);
+  useDraggable(iconRef, { onTap: () => setVisible((v) => !v) });
+  useDraggable(panelRef, { ignoreButtons: true });
 
-  // ─── COUNTDOWN + PERIOD BOUNDARY SYNC ─────────────────────────
-  useEffect(() => {
-    const update = () => {
-      const remaining = getSecondsInPeriod();
-      setCountdown(remaining + "s");
-    };
-    update();
-    const id = setInterval(update, 500);
-    return () => clearInterval(id);
-  }, [getSecondsInPeriod]);
+  // A pick fetched for another mode is still in flight after a mode switch
+  const current = next?.mode === mode ? next : null;
+  const commitment = current?.commitment ?? null;
+  const newRowIdx = hasNewRow ? 0 : null;
 
   // ─── CONFETTI ──────────────────────────────────────────────────
   const spawnConfetti = useCallback((count: number) => {
@@ -85,14 +82,9 @@ const WingoPanel = () => {
   }, []);
 
   // ─── STREAK CELEBRATION ────────────────────────────────────────
-  const showCelebration = useCallback((type: 5 | 10) => {
-    if (celTimerRef.current) clearTimeout(celTimerRef.current);
-    setCelState(type);
-    spawnConfetti(type === 10 ? 30 : 16);
-    celTimerRef.current = setTimeout(() => {
-      setCelState(null);
-    }, 2500);
-  }, [spawnConfetti]);
+  useEffect(() => {
+    if (celState) spawnConfetti(celState === 10 ? 30 : 16);
+  }, [celState, spawnConfetti]);
 
   // ─── ANIMATE PREDICTION (neural network animation) ────
   const showPredictionAnim = useCallback((finalText: string, css: string) => {
@@ -117,243 +109,37 @@ const WingoPanel = () => {
     }, 2200);
   }, []);
 
-  // ─── FETCH DATA ────────────────────────────────────────────────
-  const fetchData = useCallback(async () => {
-    try {
-      const { data: histData, error: histErr } = await supabase.rpc(
-        "get_history_with_predictions",
-        { p_mode: mode }
-      );
-
-      if (histErr || !histData || histData.length === 0) {
-        console.error("History fetch error:", histErr);
-        return;
-      }
-
-      const rows = histData as HistoryRow[];
-      setHistory(rows);
-
-      // Detect new data per mode
-      const latestIssue = rows[0].issue_number;
-      const isNew = latestIssue !== lastTopIssueRef.current[mode];
-      lastTopIssueRef.current = { ...lastTopIssueRef.current, [mode]: latestIssue };
-      if (isNew) setNewRowIdx(0);
-      else setNewRowIdx(null);
-
-      // Next period
-      let nextIssue = "--";
-      try {
-        nextIssue = (BigInt(latestIssue) + 1n).toString();
-      } catch {
-        nextIssue = latestIssue + "?";
-      }
-      setNextPeriod(nextIssue);
-
-      // Fetch next period prediction
-      const { data: nextPredData } = await supabase
-        .from("predictions")
-        .select("prediction, formula_applied")
-        .eq("issue_number", nextIssue)
-        .eq("mode", mode)
-        .maybeSingle();
-
-      if (nextPredData?.prediction) {
-        const pred = nextPredData.prediction;
-        const css = mode === "color"
-          ? pred === "RED" ? "pred-red" : "pred-green"
-          : pred === "BIG" ? "pred-big" : "pred-small";
-
-        // Store applied formula
-        if (nextPredData.formula_applied) {
-          setAppliedFormula(nextPredData.formula_applied as unknown as AppliedFormula);
-        }
-
-        // Only animate if prediction actually changed (new period or new prediction)
-        if (pred !== cachedPredRef.current[mode]) {
-          cachedPredRef.current = { ...cachedPredRef.current, [mode]: pred };
-          showPredictionAnim(pred, css);
-        } else if (!isGenerating) {
-          // Just display without animation
-          setPredClass(css);
-          setPrediction(pred);
-        }
-      }
-
-      // Calculate win streak
-      let ws = 0;
-      for (const row of rows) {
-        if (row.correct === true) ws++;
-        else break;
-      }
-      setWinStreak(ws);
-
-      const prev = prevWinStreakRef.current;
-      if (prev < 5 && ws >= 5) showCelebration(5);
-      if (prev < 10 && ws >= 10) showCelebration(10);
-      prevWinStreakRef.current = ws;
-    } catch (err) {
-      console.error("fetchData error:", err);
-    }
-  }, [mode, showPredictionAnim, showCelebration, isGenerating]);
-
-  // ─── TRIGGER EDGE FUNCTION ──────────────────────────────────────
-  const triggerEdgeFunction = useCallback(async () => {
-    try {
-      lastEdgeTriggerRef.current = Date.now();
-      await supabase.functions.invoke("fetch-wingo-data", { method: "POST" });
-    } catch (e) {
-      // silently ignore
-    }
-  }, []);
-
-  // ─── PERIOD BOUNDARY DETECTION: trigger at second 27 and 57 ───
+  // ─── NEXT PREDICTION: animate only when the pick changed ──────
   useEffect(() => {
-    let lastTriggeredSecond = -1;
-
-    const checkBoundary = () => {
-      const now = new Date();
-      const utc = now.getTime() + now.getTimezoneOffset() * 60000;
-      const gmt6 = new Date(utc + 6 * 3600000);
-      const s = gmt6.getSeconds();
-
-      // Trigger at seconds 27-28 and 57-58 (period boundaries)
-      if ((s === 27 || s === 28 || s === 57 || s === 58) && s !== lastTriggeredSecond) {
-        lastTriggeredSecond = s;
-        // Trigger edge function to fetch latest data, then fetch UI data
-        triggerEdgeFunction().then(() => {
-          // Small delay to let edge function process
-          setTimeout(() => fetchData(), 1500);
-        });
-      }
-
-      // Also trigger at seconds 0 and 30 (start of new period) for instant update
-      if ((s === 0 || s === 1 || s === 30 || s === 31) && s !== lastTriggeredSecond) {
-        lastTriggeredSecond = s;
-        triggerEdgeFunction().then(() => {
-          setTimeout(() => fetchData(), 1000);
-        });
-      }
-
-      // Reset tracker when moving away from trigger seconds
-      if (s !== 27 && s !== 28 && s !== 57 && s !== 58 && s !== 0 && s !== 1 && s !== 30 && s !== 31) {
-        lastTriggeredSecond = -1;
-      }
-    };
-
-    const id = setInterval(checkBoundary, 500);
-    return () => clearInterval(id);
-  }, [triggerEdgeFunction, fetchData]);
+    if (!current) return;
+    const pred = current.prediction;
+    const css = predCss(mode, pred);
+    if (pred !== cachedPredRef.current[mode]) {
+      cachedPredRef.current = { ...cachedPredRef.current, [mode]: pred };
+      showPredictionAnim(pred, css);
+    } else if (!genTimerRef.current) {
+      // Just display without animation
+      setPredClass(css);
+      setPrediction(pred);
+    }
+  }, [current, mode, showPredictionAnim]);
 
-  // ─── INITIAL LOAD + REGULAR POLLING ────────────────────────────
+  // ─── GAME SWITCH: no cached pick applies to the new feed ──────
   useEffect(() => {
-    fetchData();
-    triggerEdgeFunction();
-    const dataId = setInterval(fetchData, 5000);
-    const onVis = () => {
-      if (!document.hidden) {
-        triggerEdgeFunction();
-        fetchData();
-      }
-    };
-    document.addEventListener("visibilitychange", onVis);
-    return () => {
-      clearInterval(dataId);
-      document.removeEventListener("visibilitychange", onVis);
-    };
-  }, [fetchData, triggerEdgeFunction]);
+    cachedPredRef.current = { color: "", size: "", number: "" };
+    setPrediction("---");
+  }, [game]);
 
   // ─── MODE SWITCH: show cached prediction without animation ─────
   useEffect(() => {
     const cached = cachedPredRef.current[mode];
     if (cached) {
-      const css = mode === "color"
-        ? cached === "RED" ? "pred-red" : "pred-green"
-        : cached === "BIG" ? "pred-big" : "pred-small";
-      setPredClass(css);
+      setPredClass(predCss(mode, cached));
       setPrediction(cached);
       setIsGenerating(false);
     }
   }, [mode]);
 
-  // ─── DRAG: ICON ────────────────────────────────────────────────
-  useEffect(() => {
-    const icon = iconRef.current;
-    if (!icon) return;
-    let active = false, oX = 0, oY = 0, sX = 0, sY = 0, dragged = false;
-    const THRESH = 5;
-    const down = (e: any) => {
-      e.preventDefault();
-      const cx = e.touches ? e.touches[0].clientX : e.clientX;
-      const cy = e.touches ? e.touches[0].clientY : e.clientY;
-      sX = cx; sY = cy; dragged = false; active = true;
-      const mat = new DOMMatrix(getComputedStyle(icon).transform);
-      oX = cx - mat.m41; oY = cy - mat.m42;
-    };
-    const move = (e: any) => {
-      if (!active) return; e.preventDefault();
-      const cx = e.touches ? e.touches[0].clientX : e.clientX;
-      const cy = e.touches ? e.touches[0].clientY : e.clientY;
-      if (Math.abs(cx - sX) > THRESH || Math.abs(cy - sY) > THRESH) dragged = true;
-      icon.style.transform = `translate3d(${cx - oX}px,${cy - oY}px,0)`;
-    };
-    const up = () => {
-      if (active && !dragged) setVisible(v => !v);
-      active = false;
-    };
-    icon.addEventListener("mousedown", down);
-    icon.addEventListener("touchstart", down, { passive: false });
-    icon.ondragstart = () => false;
-    document.addEventListener("mousemove", move);
-    document.addEventListener("mouseup", up);
-    document.addEventListener("touchmove", move, { passive: false });
-    document.addEventListener("touchend", up);
-    return () => {
-      icon.removeEventListener("mousedown", down);
-      icon.removeEventListener("touchstart", down);
-      document.removeEventListener("mousemove", move);
-      document.removeEventListener("mouseup", up);
-      document.removeEventListener("touchmove", move);
-      document.removeEventListener("touchend", up);
-    };
-  }, []);
-
-  // ─── DRAG: PANEL ───────────────────────────────────────────────
-  useEffect(() => {
-    const panel = panelRef.current;
-    if (!panel) return;
-    let active = false, oX = 0, oY = 0;
-    const down = (e: any) => {
-      if (e.target.tagName === "BUTTON" || e.target.closest("button")) return;
-      e.preventDefault();
-      const cx = e.touches ? e.touches[0].clientX : e.clientX;
-      const cy = e.touches ? e.touches[0].clientY : e.clientY;
-      const mat = new DOMMatrix(getComputedStyle(panel).transform);
-      oX = cx - mat.m41; oY = cy - mat.m42; active = true;
-    };
-    const move = (e: any) => {
-      if (!active) return; e.preventDefault();
-      const cx = e.touches ? e.touches[0].clientX : e.clientX;
-      const cy = e.touches ? e.touches[0].clientY : e.clientY;
-      panel.style.transform = `translate3d(${cx - oX}px,${cy - oY}px,0)`;
-    };
-    const up = () => { active = false; };
-    panel.addEventListener("mousedown", down);
-    panel.addEventListener("touchstart", down, { passive: false });
-    panel.ondragstart = () => false;
-    document.addEventListener("mousemove", move);
-    document.addEventListener("mouseup", up);
-    document.addEventListener("touchmove", move, { passive: false });
-    document.addEventListener("touchend", up);
-    return () => {
-      panel.removeEventListener("mousedown", down);
-      panel.removeEventListener("touchstart", down);
-      document.removeEventListener("mousemove", move);
-      document.removeEventListener("mouseup", up);
-      document.removeEventListener("touchmove", move);
-      document.removeEventListener("touchend", up);
-    };
-  }, []);
-
   const panelClass = [
     "wingo-panel",
     !visible && "panel-hidden",
@@ -361,15 +147,24 @@ const WingoPanel = () => {
     winStreak >= 5 && winStreak < 10 && "win5-state",
   ].filter(Boolean).join(" ");
 
+  const accuracy = stats ? summarizeAccuracy(stats, statsWindow, mode) : null;
+  const streakWait = stats ? streakWaitPeriods(stats, mode) : null;
+
   const predClassName = isGenerating ? "prediction-value is-generating" : `prediction-value ${predClass}`;
 
   return (
     <>
-      <div ref={iconRef} className="toggle-icon" title="tap to show/hide">
-        <span>⚡</span>
-      </div>
+      {!onClose && (
+        <div ref={iconRef} className="toggle-icon" title="tap to show/hide">
+          <span>⚡</span>
+        </div>
+      )}
 
-      <div ref={panelRef} className={panelClass}>
+      <div
+        ref={panelRef}
+        className={panelClass}
+        style={stackIndex ? { top: 90 + stackIndex * 28, left: 20 + stackIndex * 28 } : undefined}
+      >
         {celState && (
           <div className={`streak-cel cel-in ${celState === 10 ? "cel-10" : "cel-5"}`}>
             <div className="cel-ring" style={{ color: celState === 10 ? "#00ccff" : "#ffd700" }} />
@@ -389,7 +184,28 @@ const WingoPanel = () => {
           }} />
         ))}
 
-        <div className="panel-header">🧠 AX WinGo30s AI HACK 🧠</div>
+        {onClose && (
+          <button className="panel-close" title="close" onClick={(e) => { e.stopPropagation(); onClose(); }}>✕</button>
+        )}
+
+        <div className="panel-header">🧠 AX WinGo{GAMES[game].label} AI HACK 🧠</div>
+
+        <div className="game-tabs">
+          {GAME_IDS.map((g) => (
+            <button
+              key={g}
+              className={`game-btn ${game === g ? "active" : ""}`}
+              onClick={(e) => { e.stopPropagation(); onGameChange(g); }}
+            >{GAMES[g].label}</button>
+          ))}
+          {onAddPanel && (
+            <button
+              className="game-btn game-add"
+              title="follow another game"
+              onClick={(e) => { e.stopPropagation(); onAddPanel(); }}
+            >＋</button>
+          )}
+        </div>
 
         <div className="mode-tabs">
           <button
@@ -400,6 +216,10 @@ const WingoPanel = () => {
             className={`mode-btn ${mode === "color" ? "active" : ""}`}
             onClick={(e) => { e.stopPropagation(); setMode("color"); }}
           >🎨 Color</button>
+          <button
+            className={`mode-btn ${mode === "number" ? "active" : ""}`}
+            onClick={(e) => { e.stopPropagation(); setMode("number"); }}
+          >🔢 Number</button>
         </div>
 
         <div className={`next-box ${isGenerating ? "generating" : ""}`}>
@@ -420,6 +240,11 @@ const WingoPanel = () => {
               {prediction}
             </div>
           )}
+          {commitment && (
+            <div className="commitment" title={`SHA-256 commitment published before the draw: ${commitment}`}>
+              🔒 {commitment.slice(0, 8)}…{commitment.slice(-8)}
+            </div>
+          )}
         </div>
 
 
@@ -429,7 +254,9 @@ const WingoPanel = () => {
           </div>
         )}
 
-        <div className="history-title">📋 LAST 10 RESULTS <span>live</span></div>
+        <div className="history-title">
+          📋 LAST 10 RESULTS <span className={`feed-${feed}`} title="realtime connection">{FEED_LABEL[feed]}</span>
+        </div>
         <div className="table-wrapper">
           <table>
             <thead>
@@ -442,9 +269,8 @@ const WingoPanel = () => {
                 history.map((row, i) => {
                   const pred = row.prediction || "---";
                   const ok = row.correct;
-                  const pc = mode === "color"
-                    ? (pred === "RED" ? "pred-red" : "pred-green")
-                    : (pred === "BIG" ? "pred-big" : "pred-small");
+                  const pc = predCss(mode, pred);
+                  const uncommitted = row.prediction !== null && !row.committed;
                   const rowClasses = [
                     newRowIdx === i && "row-new",
                     newRowIdx === i && ok === true && "row-win-flash-delayed",
@@ -453,7 +279,11 @@ const WingoPanel = () => {
                   return (
                     <tr key={row.issue_number} className={rowClasses}>
                       <td>{shortPeriod(row.issue_number)}</td>
-                      <td className={pc} style={{ fontWeight: 700 }}>{pred}</td>
+                      <td
+                        className={`${pc} ${uncommitted ? "pred-uncommitted" : ""}`}
+                        style={{ fontWeight: 700 }}
+                        title={uncommitted ? "no commitment: not provably written before the draw" : undefined}
+                      >{pred}</td>
                       <td>
                         {ok === true
                           ? <span className="status-ok">✅</span>
@@ -468,7 +298,52 @@ const WingoPanel = () => {
             </tbody>
           </table>
         </div>
-        <div className="footer-note">live sync · 50/50 Random Engine · Neural Network UI</div>
+        <div className="stats-section">
+          <button className="formula-toggle" onClick={(e) => { e.stopPropagation(); setStatsOpen((o) => !o); }}>
+            📊 ACCURACY {statsOpen ? "▲" : "▼"}
+          </button>
+          {statsOpen && accuracy && stats && (
+            <div className="formula-details">
+              <div className="stats-windows">
+                {STATS_WINDOWS.map((w) => (
+                  <button
+                    key={w}
+                    className={`stats-window ${statsWindow === w ? "active" : ""}`}
+                    onClick={(e) => { e.stopPropagation(); setStatsWindow(w); }}
+                  >{w === "all" ? "all" : `last ${w}`}</button>
+                ))}
+              </div>
+              <div className="formula-row">
+                <span className="formula-label">Hit rate</span>
+                <span className="formula-val">{accuracy.n ? `${pct(accuracy.hits / accuracy.n)} (${accuracy.hits}/${accuracy.n})` : "—"}</span>
+              </div>
+              <div className="formula-row">
+                <span className="formula-label">95% interval</span>
+                <span className="formula-val">{accuracy.n ? `${pct(accuracy.interval.lower)} – ${pct(accuracy.interval.upper)}` : "—"}</span>
+              </div>
+              <div className="formula-row">
+                <span className="formula-label">p vs {pct(accuracy.chance)}</span>
+                <span className="formula-val">{accuracy.n ? accuracy.pValue.toFixed(3) : "—"}</span>
+              </div>
+              <div className="formula-row">
+                <span className="formula-label">Current streak</span>
+                <span className="formula-val">
+                  {stats.streak_length ? `${stats.streak_length} ${stats.streak_wins ? "wins" : "losses"}` : "—"}
+                </span>
+              </div>
+              <div className="formula-desc">
+                {accuracy.verdict}
+                {streakWait !== null && ` · by pure chance a streak this long turns up about every ${Math.round(streakWait)} periods`}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="footer-note">
+          live sync · {current?.formula ? `${current.formula.id} engine` : "awaiting prediction"} · Neural Network UI ·{" "}
+          <Link to="/stats" onClick={(e) => e.stopPropagation()}>stats</Link> ·{" "}
+          <Link to="/randomness" onClick={(e) => e.stopPropagation()}>randomness report</Link> ·{" "}
+          <Link to="/data-quality" onClick={(e) => e.stopPropagation()}>data quality</Link>
+        </div>
       </div>
     </>
   );
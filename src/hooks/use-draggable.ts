@@ -0,0 +1,73 @@
+import * as React from "react";
+
+// Pointer travel below which a press counts as a tap rather than a drag
+const TAP_THRESHOLD_PX = 5;
+
+interface DraggableOptions {
+  // Called on release when the element was pressed without being dragged
+  onTap?: () => void;
+  // Leave presses on buttons and links inside the element to them: cancelling a
+  // touchstart would also cancel the click it turns into
+  ignoreButtons?: boolean;
+}
+
+type PointerEvent = MouseEvent | TouchEvent;
+
+const pointOf = (e: PointerEvent) => {
+  const p = "touches" in e ? e.touches[0] : e;
+  return { x: p.clientX, y: p.clientY };
+};
+
+// Moves an element with mouse or touch by rewriting its translate3d transform
+export function useDraggable<T extends HTMLElement>(ref: React.RefObject<T>, options: DraggableOptions = {}) {
+  const optionsRef = React.useRef(options);
+  React.useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  React.useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    let active = false;
+    let dragged = false;
+    let start = { x: 0, y: 0 };
+    let origin = { x: 0, y: 0 };
+
+    const down = (e: PointerEvent) => {
+      if (optionsRef.current.ignoreButtons && (e.target as Element | null)?.closest("button, a")) return;
+      e.preventDefault();
+      start = pointOf(e);
+      const mat = new DOMMatrix(getComputedStyle(el).transform);
+      origin = { x: start.x - mat.m41, y: start.y - mat.m42 };
+      active = true;
+      dragged = false;
+    };
+    const move = (e: PointerEvent) => {
+      if (!active) return;
+      e.preventDefault();
+      const p = pointOf(e);
+      if (Math.abs(p.x - start.x) > TAP_THRESHOLD_PX || Math.abs(p.y - start.y) > TAP_THRESHOLD_PX) dragged = true;
+      el.style.transform = `translate3d(${p.x - origin.x}px,${p.y - origin.y}px,0)`;
+    };
+    const up = () => {
+      if (active && !dragged) optionsRef.current.onTap?.();
+      active = false;
+    };
+
+    el.addEventListener("mousedown", down);
+    el.addEventListener("touchstart", down, { passive: false });
+    el.ondragstart = () => false;
+    document.addEventListener("mousemove", move);
+    document.addEventListener("mouseup", up);
+    document.addEventListener("touchmove", move, { passive: false });
+    document.addEventListener("touchend", up);
+    return () => {
+      el.removeEventListener("mousedown", down);
+      el.removeEventListener("touchstart", down);
+      document.removeEventListener("mousemove", move);
+      document.removeEventListener("mouseup", up);
+      document.removeEventListener("touchmove", move);
+      document.removeEventListener("touchend", up);
+    };
+  }, [ref]);
+}
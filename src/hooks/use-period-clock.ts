@@ -0,0 +1,20 @@
+import * as React from "react";
+import { secondsLeftInPeriod, type GameId } from "../../supabase/functions/_shared/domain.ts";
+import { serverNow } from "@/lib/server-clock";
+import { formatCountdown } from "@/lib/wingo-domain";
+
+const TICK_MS = 500;
+
+// Seconds left in the running period of a game, on the database clock (see server-clock)
+export function usePeriodClock(game: GameId) {
+  const [secondsLeft, setSecondsLeft] = React.useState(() => secondsLeftInPeriod(game, serverNow()));
+
+  React.useEffect(() => {
+    const update = () => setSecondsLeft(secondsLeftInPeriod(game, serverNow()));
+    update();
+    const id = setInterval(update, TICK_MS);
+    return () => clearInterval(id);
+  }, [game]);
+
+  return { secondsLeft, countdown: formatCountdown(secondsLeft) };
+}
@@ -0,0 +1,21 @@
+import * as React from "react";
+import { getServerClock, RESYNC_MS, subscribeServerClock, syncServerClock } from "@/lib/server-clock";
+
+const STALE_CHECK_MS = 60_000;
+
+// Keeps the shared server clock synced while mounted and returns the latest estimate
+export function useServerClock() {
+  const clock = React.useSyncExternalStore(subscribeServerClock, getServerClock);
+
+  React.useEffect(() => {
+    const syncIfStale = () => {
+      const current = getServerClock();
+      if (!current || Date.now() - current.syncedAt >= RESYNC_MS) syncServerClock();
+    };
+    syncIfStale();
+    const id = setInterval(syncIfStale, STALE_CHECK_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  return clock;
+}
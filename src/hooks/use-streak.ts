@@ -0,0 +1,34 @@
+import * as React from "react";
+import { celebrationFor, currentWinStreak, type Celebration, type HistoryRow } from "@/lib/wingo-domain";
+
+const CELEBRATION_MS = 2500;
+
+// Current win streak of a history feed, plus the celebration shown for a few
+// seconds when it reaches 5 or 10. An emptied feed (game switch) starts afresh.
+export function useStreak(history: readonly Pick<HistoryRow, "correct">[]) {
+  const winStreak = currentWinStreak(history);
+  const [celebration, setCelebration] = React.useState<Celebration | null>(null);
+  const previousRef = React.useRef(0);
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  React.useEffect(() => {
+    const earned = celebrationFor(previousRef.current, winStreak);
+    previousRef.current = winStreak;
+    if (!earned) return;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setCelebration(earned);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      setCelebration(null);
+    }, CELEBRATION_MS);
+  }, [winStreak]);
+
+  React.useEffect(
+    () => () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    },
+    [],
+  );
+
+  return { winStreak, celebration };
+}
@@ -0,0 +1,155 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  nextIssueNumber,
+  type AppliedFormula,
+  type GameId,
+  type PredictionMode,
+} from "../../supabase/functions/_shared/domain.ts";
+import type { HistoryRow, NextPrediction, PredictionStats } from "@/lib/wingo-domain";
+
+// Realtime subscription state; polling only runs while it is down
+export type FeedState = "connecting" | "live" | "polling";
+export const FALLBACK_POLL_MS = 5000;
+// Ingest writes many rows at once; refresh once they have landed
+export const REFRESH_DEBOUNCE_MS = 300;
+
+// History, next pick and accuracy of one game and mode, refreshed when the game's
+// Realtime topic announces a write and polled only while the channel is down
+export function useWingoFeed(game: GameId, mode: PredictionMode) {
+  const [history, setHistory] = React.useState<HistoryRow[]>([]);
+  const [nextPeriod, setNextPeriod] = React.useState("---");
+  const [next, setNext] = React.useState<NextPrediction | null>(null);
+  const [stats, setStats] = React.useState<PredictionStats | null>(null);
+  const [feed, setFeed] = React.useState<FeedState>("connecting");
+  // Whether the latest fetch brought a result not seen before in this mode
+  const [hasNewRow, setHasNewRow] = React.useState(false);
+  const lastTopIssueRef = React.useRef<Record<PredictionMode, string>>({ color: "", size: "", number: "" });
+  // Bumped by every fetch; an answer that arrives after a newer fetch started is
+  // dropped, so a slow one for another game or mode cannot overwrite the current feed
+  const requestRef = React.useRef(0);
+
+  const fetchData = React.useCallback(async () => {
+    const request = ++requestRef.current;
+    const stale = () => request !== requestRef.current;
+    try {
+      const { data: histData, error: histErr } = await supabase.rpc("get_history_with_predictions", {
+        p_mode: mode,
+        p_game: game,
+      });
+      if (stale()) return;
+
+      if (histErr || !histData || histData.length === 0) {
+        console.error("History fetch error:", histErr);
+        return;
+      }
+
+      const rows = histData as HistoryRow[];
+      setHistory(rows);
+
+      const latestIssue = rows[0].issue_number;
+      setHasNewRow(latestIssue !== lastTopIssueRef.current[mode]);
+      lastTopIssueRef.current = { ...lastTopIssueRef.current, [mode]: latestIssue };
+
+      const nextIssue = nextIssueNumber(latestIssue);
+      setNextPeriod(nextIssue ?? "---");
+
+      const { data: nextPredRows } = nextIssue
+        ? await supabase.rpc("get_prediction", { p_mode: mode, p_issue_number: nextIssue, p_game: game })
+        : { data: null };
+      if (stale()) return;
+      const nextPredData = nextPredRows?.[0];
+      if (nextPredData?.prediction) {
+        setNext({
+          mode,
+          issue_number: nextPredData.issue_number,
+          prediction: nextPredData.prediction,
+          formula: (nextPredData.formula_applied as unknown as AppliedFormula | null) ?? null,
+          commitment: nextPredData.commitment,
+        });
+      } else {
+        // No pick for this period (yet); the previous one must not show under it
+        setNext(null);
+      }
+
+      const { data: statsRows } = await supabase.rpc("get_prediction_stats", {
+        p_mode: mode,
+        p_game: game,
+      });
+      if (stale()) return;
+      setStats((statsRows?.[0] as PredictionStats | undefined) ?? null);
+    } catch (err) {
+      console.error("fetchData error:", err);
+    }
+  }, [game, mode]);
+
+  // Latest fetchData and mode for the subscription, which only resubscribes for
+  // another game: the topic is per game, and a channel that is still leaving would
+  // be handed back for the same topic
+  const fetchRef = React.useRef(fetchData);
+  const modeRef = React.useRef(mode);
+  React.useEffect(() => {
+    fetchRef.current = fetchData;
+    modeRef.current = mode;
+  }, [fetchData, mode]);
+
+  React.useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Nothing cached applies to the feed of another game
+  React.useEffect(() => {
+    lastTopIssueRef.current = { color: "", size: "", number: "" };
+    setHistory([]);
+    setNextPeriod("---");
+    setNext(null);
+    setStats(null);
+    setHasNewRow(false);
+  }, [game]);
+
+  React.useEffect(() => {
+    let disposed = false;
+    let debounce: ReturnType<typeof setTimeout> | null = null;
+    let poll: ReturnType<typeof setInterval> | null = null;
+
+    const refresh = () => {
+      if (debounce) clearTimeout(debounce);
+      debounce = setTimeout(() => fetchRef.current(), REFRESH_DEBOUNCE_MS);
+    };
+    const stopPolling = () => {
+      if (poll) clearInterval(poll);
+      poll = null;
+    };
+
+    setFeed("connecting");
+
+    // Notices carry the period, never the pick; the data comes from the read functions
+    const channel = supabase
+      .channel(`wingo:${game}`)
+      .on("broadcast", { event: "result" }, refresh)
+      .on("broadcast", { event: "prediction" }, ({ payload }) => {
+        if ((payload as { mode?: string }).mode === modeRef.current) refresh();
+      })
+      .subscribe((status) => {
+        if (disposed) return;
+        if (status === "SUBSCRIBED") {
+          stopPolling();
+          setFeed("live");
+          // Catch up on anything written while the channel was down
+          fetchRef.current();
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+          setFeed("polling");
+          if (!poll) poll = setInterval(() => fetchRef.current(), FALLBACK_POLL_MS);
+        }
+      });
+
+    return () => {
+      disposed = true;
+      if (debounce) clearTimeout(debounce);
+      stopPolling();
+      supabase.removeChannel(channel);
+    };
+  }, [game]);
+
+  return { history, nextPeriod, next, stats, feed, hasNewRow };
+}
@@ -14,114 +14,614 @@ export type Database = {
   }
   public: {
     Tables: {
+      formula_set_activations: {
+        Row: {
+          created_at: string
+          engine_id: string
+          formula_set_id: string
+          game: string
+          id: string
+          is_active: boolean
+          mode: string
+          reason: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          engine_id: string
+          formula_set_id: string
+          game?: string
+          id?: string
+          is_active: boolean
+          mode: string
+          reason?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          engine_id?: string
+          formula_set_id?: string
+          game?: string
+          id?: string
+          is_active?: boolean
+          mode?: string
+          reason?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "formula_set_activations_formula_set_id_fkey"
+            columns: ["formula_set_id"]
+            isOneToOne: false
+            referencedRelation: "formula_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       formula_sets: {
         Row: {
           accuracy: number | null
           consecutive_failures: number | null
           correct_predictions: number | null
           created_at: string
+          deactivated_at: string | null
+          engine_id: string
           extracted_at: string
           formulas: Json
+          game: string
           id: string
           is_active: boolean | null
           mode: string
+          retired_at: string | null
           total_predictions: number | null
+          version: number
         }
         Insert: {
           accuracy?: number | null
           consecutive_failures?: number | null
           correct_predictions?: number | null
           created_at?: string
+          deactivated_at?: string | null
+          engine_id?: string
           extracted_at?: string
           formulas?: Json
+          game?: string
           id?: string
           is_active?: boolean | null
           mode: string
+          retired_at?: string | null
           total_predictions?: number | null
+          version?: number
         }
         Update: {
           accuracy?: number | null
           consecutive_failures?: number | null
           correct_predictions?: number | null
           created_at?: string
+          deactivated_at?: string | null
+          engine_id?: string
           extracted_at?: string
           formulas?: Json
+          game?: string
           id?: string
           is_active?: boolean | null
           mode?: string
+          retired_at?: string | null
           total_predictions?: number | null
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "formula_sets_game_fkey"
+            columns: ["game"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       game_results: {
         Row: {
           color: string
           created_at: string
+          game: string
           id: string
           issue_number: string
           number: number
           premium: string | null
+          primary_color: string | null
+          size: string | null
           sum: number | null
+          violet: boolean | null
         }
         Insert: {
           color: string
           created_at?: string
+          game?: string
           id?: string
           issue_number: string
           number: number
           premium?: string | null
+          primary_color?: never
+          size?: never
           sum?: number | null
+          violet?: never
         }
         Update: {
           color?: string
           created_at?: string
+          game?: string
           id?: string
           issue_number?: string
           number?: number
           premium?: string | null
+          primary_color?: never
+          size?: never
           sum?: number | null
+          violet?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_results_game_fkey"
+            columns: ["game"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_results_archive: {
+        Row: {
+          archived_at: string
+          color: string
+          created_at: string
+          game: string
+          issue_number: string
+          number: number
+          premium: string | null
+          primary_color: string | null
+          size: string | null
+          sum: number | null
+          violet: boolean | null
+        }
+        Insert: {
+          archived_at?: string
+          color: string
+          created_at: string
+          game?: string
+          issue_number: string
+          number: number
+          premium?: string | null
+          primary_color?: never
+          size?: never
+          sum?: number | null
+          violet?: never
+        }
+        Update: {
+          archived_at?: string
+          color?: string
+          created_at?: string
+          game?: string
+          issue_number?: string
+          number?: number
+          premium?: string | null
+          primary_color?: never
+          size?: never
+          sum?: number | null
+          violet?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_results_archive_game_fkey"
+            columns: ["game"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      games: {
+        Row: {
+          id: string
+          issue_code: string
+          label: string
+          period_seconds: number
+        }
+        Insert: {
+          id: string
+          issue_code: string
+          label: string
+          period_seconds: number
+        }
+        Update: {
+          id?: string
+          issue_code?: string
+          label?: string
+          period_seconds?: number
         }
         Relationships: []
       }
+      ingest_locks: {
+        Row: {
+          acquired_at: string
+          expires_at: string
+          game: string
+          holder: string
+        }
+        Insert: {
+          acquired_at?: string
+          expires_at: string
+          game: string
+          holder: string
+        }
+        Update: {
+          acquired_at?: string
+          expires_at?: string
+          game?: string
+          holder?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingest_locks_game_fkey"
+            columns: ["game"]
+            isOneToOne: true
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingest_runs: {
+        Row: {
+          abandoned_gaps: string[]
+          action: string
+          duplicate_issues: string[]
+          error: string | null
+          error_kind: string | null
+          finished_at: string | null
+          game: string
+          id: string
+          out_of_order_issues: string[]
+          predictions_created: number
+          predictions_settled: number
+          rejected_fields: Json
+          rows_rejected: number
+          rows_upserted: number
+          started_at: string
+          status: string
+          upstream_attempts: number
+          upstream_status: number | null
+        }
+        Insert: {
+          abandoned_gaps?: string[]
+          action?: string
+          duplicate_issues?: string[]
+          error?: string | null
+          error_kind?: string | null
+          finished_at?: string | null
+          game?: string
+          id?: string
+          out_of_order_issues?: string[]
+          predictions_created?: number
+          predictions_settled?: number
+          rejected_fields?: Json
+          rows_rejected?: number
+          rows_upserted?: number
+          started_at?: string
+          status?: string
+          upstream_attempts?: number
+          upstream_status?: number | null
+        }
+        Update: {
+          abandoned_gaps?: string[]
+          action?: string
+          duplicate_issues?: string[]
+          error?: string | null
+          error_kind?: string | null
+          finished_at?: string | null
+          game?: string
+          id?: string
+          out_of_order_issues?: string[]
+          predictions_created?: number
+          predictions_settled?: number
+          rejected_fields?: Json
+          rows_rejected?: number
+          rows_upserted?: number
+          started_at?: string
+          status?: string
+          upstream_attempts?: number
+          upstream_status?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingest_runs_game_fkey"
+            columns: ["game"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prediction_reveals: {
+        Row: {
+          created_at: string
+          prediction_id: string
+          salt: string
+        }
+        Insert: {
+          created_at?: string
+          prediction_id: string
+          salt: string
+        }
+        Update: {
+          created_at?: string
+          prediction_id?: string
+          salt?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_reveals_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: true
+            referencedRelation: "predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       predictions: {
         Row: {
+          closes_at: string | null
+          commitment: string | null
           correct: boolean | null
           created_at: string
           formula_applied: Json | null
+          formula_set_id: string | null
+          game: string
           id: string
           issue_number: string
           mode: string
           prediction: string
         }
         Insert: {
+          closes_at?: string | null
+          commitment?: string | null
           correct?: boolean | null
           created_at?: string
           formula_applied?: Json | null
+          formula_set_id?: string | null
+          game?: string
           id?: string
           issue_number: string
           mode: string
           prediction: string
         }
         Update: {
+          closes_at?: string | null
+          commitment?: string | null
           correct?: boolean | null
           created_at?: string
           formula_applied?: Json | null
+          formula_set_id?: string | null
+          game?: string
           id?: string
           issue_number?: string
           mode?: string
           prediction?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "predictions_formula_set_id_fkey"
+            columns: ["formula_set_id"]
+            isOneToOne: false
+            referencedRelation: "formula_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_game_fkey"
+            columns: ["game"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      predictions_archive: {
+        Row: {
+          closes_at: string | null
+          commitment: string | null
+          correct: boolean
+          created_at: string
+          formula_applied: Json | null
+          formula_set_id: string | null
+          game: string
+          id: string
+          issue_number: string
+          mode: string
+          prediction: string
+          salt: string | null
+          settled_at: string
+        }
+        Insert: {
+          closes_at?: string | null
+          commitment?: string | null
+          correct: boolean
+          created_at: string
+          formula_applied?: Json | null
+          formula_set_id?: string | null
+          game?: string
+          id: string
+          issue_number: string
+          mode: string
+          prediction: string
+          salt?: string | null
+          settled_at?: string
+        }
+        Update: {
+          closes_at?: string | null
+          commitment?: string | null
+          correct?: boolean
+          created_at?: string
+          formula_applied?: Json | null
+          formula_set_id?: string | null
+          game?: string
+          id?: string
+          issue_number?: string
+          mode?: string
+          prediction?: string
+          salt?: string | null
+          settled_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "predictions_archive_game_fkey"
+            columns: ["game"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_policies: {
+        Row: {
+          keep_days: number | null
+          keep_rows: number | null
+          table_name: string
+          updated_at: string
+        }
+        Insert: {
+          keep_days?: number | null
+          keep_rows?: number | null
+          table_name: string
+          updated_at?: string
+        }
+        Update: {
+          keep_days?: number | null
+          keep_rows?: number | null
+          table_name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
+      upstream_breakers: {
+        Row: {
+          failures: number
+          game: string
+          last_error: string | null
+          opened_at: string | null
+          state: string
+          updated_at: string
+        }
+        Insert: {
+          failures?: number
+          game: string
+          last_error?: string | null
+          opened_at?: string | null
+          state?: string
+          updated_at?: string
+        }
+        Update: {
+          failures?: number
+          game?: string
+          last_error?: string | null
+          opened_at?: string | null
+          state?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "upstream_breakers_game_fkey"
+            columns: ["game"]
+            isOneToOne: true
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      acquire_ingest_lock: {
+        Args: {
+          p_game: string
+          p_holder: string
+          p_ttl_seconds?: number
+        }
+        Returns: boolean
+      }
+      activate_formula_set: {
+        Args: {
+          p_engine_id: string
+          p_formulas?: Json
+          p_game?: string
+          p_mode: string
+          p_reason?: string
+        }
+        Returns: {
+          accuracy: number | null
+          consecutive_failures: number | null
+          correct_predictions: number | null
+          created_at: string
+          deactivated_at: string | null
+          engine_id: string
+          extracted_at: string
+          formulas: Json
+          game: string
+          id: string
+          is_active: boolean | null
+          mode: string
+          total_predictions: number | null
+          version: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "formula_sets"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      get_archived_results: {
+        Args: {
+          p_game?: string
+          p_limit?: number
+        }
+        Returns: {
+          color: string
+          issue_number: string
+          number: number
+        }[]
+      }
+      get_data_quality: {
+        Args: {
+          p_game?: string
+          p_limit?: number
+        }
+        Returns: {
+          detail: string
+          issue_number: string
+          kind: string
+          last_issue: string
+          missing: number
+        }[]
+      }
+      get_digit_frequency: {
+        Args: {
+          p_game?: string
+          p_limit?: number
+        }
+        Returns: {
+          digit: number
+          draws: number
+        }[]
+      }
       get_history_with_predictions: {
-        Args: { p_mode: string }
+        Args: {
+          p_game?: string
+          p_mode: string
+        }
         Returns: {
           color: string
+          committed: boolean
           correct: boolean
           issue_number: string
           number: number
@@ -129,8 +629,190 @@ export type Database = {
           premium: string
         }[]
       }
+      get_hourly_digit_heatmap: {
+        Args: {
+          p_days?: number
+          p_game?: string
+        }
+        Returns: {
+          digit: number
+          draws: number
+          hour: number
+        }[]
+      }
+      get_prediction: {
+        Args: {
+          p_game?: string
+          p_issue_number: string
+          p_mode: string
+        }
+        Returns: {
+          closes_at: string
+          commitment: string
+          formula_applied: Json
+          issue_number: string
+          prediction: string
+        }[]
+      }
+      get_prediction_stats: {
+        Args: {
+          p_game?: string
+          p_mode: string
+        }
+        Returns: {
+          hits_50: number
+          hits_500: number
+          hits_all: number
+          settled_50: number
+          settled_500: number
+          settled_all: number
+          streak_length: number
+          streak_wins: boolean
+        }[]
+      }
+      get_rolling_hit_rate: {
+        Args: {
+          p_game?: string
+          p_points?: number
+          p_step?: number
+          p_window?: number
+        }
+        Returns: {
+          engine_id: string
+          hit_rate: number
+          issue_number: string
+          mode: string
+          settled: number
+        }[]
+      }
+      get_streak_distribution: {
+        Args: {
+          p_game?: string
+          p_mode: string
+        }
+        Returns: {
+          length: number
+          runs: number
+          wins: boolean
+        }[]
+      }
+      prediction_is_archived: {
+        Args: {
+          p_id: string
+        }
+        Returns: boolean
+      }
+      record_formula_set_outcome: {
+        Args: {
+          p_correct: boolean
+          p_failure_threshold?: number
+          p_set_id: string
+        }
+        Returns: boolean
+      }
+      release_ingest_lock: {
+        Args: {
+          p_game: string
+          p_holder: string
+        }
+        Returns: undefined
+      }
+      server_now: { Args: never; Returns: string }
+      settle_and_predict: {
+        Args: {
+          p_failure_thresholds?: Json
+          p_game: string
+          p_latest_issue: string
+          p_predictions?: Json
+        }
+        Returns: {
+          change: string
+          correct: boolean
+          formula_set_version: number
+          issue_number: string
+          mode: string
+          prediction: string
+        }[]
+      }
+      settle_pending_predictions: {
+        Args: {
+          p_failure_thresholds?: Json
+          p_game: string
+          p_latest_issue: string
+        }
+        Returns: {
+          change: string
+          correct: boolean
+          formula_set_version: number
+          issue_number: string
+          mode: string
+          prediction: string
+        }[]
+      }
+      trim_archives: { Args: never; Returns: undefined }
       trim_game_results: { Args: never; Returns: undefined }
+      trim_ingest_runs: { Args: never; Returns: undefined }
       trim_predictions: { Args: never; Returns: undefined }
+      verify_predictions: {
+        Args: {
+          p_from_issue?: string
+          p_game?: string
+          p_limit?: number
+          p_to_issue?: string
+        }
+        Returns: {
+          closes_at: string
+          commitment: string
+          commitment_valid: boolean
+          correct: boolean
+          created_at: string
+          issue_number: string
+          mode: string
+          prediction: string
+          salt: string
+          written_before_close: boolean
+        }[]
+      }
+      wingo_commitment: {
+        Args: {
+          p_game: string
+          p_issue_number: string
+          p_mode: string
+          p_prediction: string
+          p_salt: string
+        }
+        Returns: string
+      }
+      wingo_issue_is_valid: {
+        Args: {
+          p_game: string
+          p_issue_number: string
+        }
+        Returns: boolean
+      }
+      wingo_issue_number_at: {
+        Args: {
+          p_at?: string
+          p_game: string
+        }
+        Returns: string
+      }
+      wingo_period_close_at: {
+        Args: {
+          p_game: string
+          p_issue_number: string
+        }
+        Returns: string
+      }
+      wingo_pick_wins: {
+        Args: {
+          p_color: string
+          p_mode: string
+          p_number: number
+          p_pick: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
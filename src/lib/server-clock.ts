@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  clockSample,
+  estimateOffset,
+  type ClockEstimate,
+  type ClockSample,
+} from "../../supabase/functions/_shared/clock.ts";
+
+// Device clocks can be minutes off; countdowns run on the database clock instead.
+
+export interface ServerClock extends ClockEstimate {
+  // Device time of the last successful sync
+  syncedAt: number;
+}
+
+const SAMPLES_PER_SYNC = 5;
+export const RESYNC_MS = 5 * 60_000;
+
+let clock: ServerClock | null = null;
+let syncing: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+export const getServerClock = (): ServerClock | null => clock;
+
+export const subscribeServerClock = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Device time corrected by the last measured offset (uncorrected until the first sync)
+export const serverNow = (): number => Date.now() + (clock?.offsetMs ?? 0);
+
+// Times a few server_now round trips back to back; concurrent calls share one sync
+export const syncServerClock = (): Promise<void> => {
+  if (syncing) return syncing;
+  syncing = (async () => {
+    const samples: ClockSample[] = [];
+    for (let i = 0; i < SAMPLES_PER_SYNC; i++) {
+      const t0 = Date.now();
+      const { data, error } = await supabase.rpc("server_now");
+      const t1 = Date.now();
+      if (error || !data) {
+        console.error("server_now error:", error);
+        continue;
+      }
+      samples.push(clockSample(t0, Date.parse(data), t1));
+    }
+    const estimate = estimateOffset(samples);
+    if (estimate) {
+      clock = { ...estimate, syncedAt: Date.now() };
+      listeners.forEach((l) => l());
+    }
+  })().finally(() => {
+    syncing = null;
+  });
+  return syncing;
+};
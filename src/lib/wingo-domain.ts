@@ -0,0 +1,121 @@
+import {
+  CHANCE_RATE,
+  pickTone,
+  type AppliedFormula,
+  type PickTone,
+  type PredictionMode,
+} from "../../supabase/functions/_shared/domain.ts";
+import {
+  binomialTestPValue,
+  expectedPeriodsUntilStreak,
+  wilsonInterval,
+  type Interval,
+} from "../../supabase/functions/_shared/stats.ts";
+
+// Pure helpers behind the WingoPanel: no React, no Supabase.
+
+// Row returned by get_history_with_predictions
+export interface HistoryRow {
+  issue_number: string;
+  number: number;
+  color: string;
+  premium: string;
+  prediction: string | null;
+  correct: boolean | null;
+  // False for rows written without a commitment (before predictions were committed)
+  committed: boolean;
+}
+
+// Pick for the upcoming period, tagged with the mode it was fetched for
+export interface NextPrediction {
+  mode: PredictionMode;
+  issue_number: string;
+  prediction: string;
+  formula: AppliedFormula | null;
+  commitment: string | null;
+}
+
+// Row returned by get_prediction_stats (committed, settled predictions only)
+export interface PredictionStats {
+  settled_50: number;
+  hits_50: number;
+  settled_500: number;
+  hits_500: number;
+  settled_all: number;
+  hits_all: number;
+  streak_length: number;
+  streak_wins: boolean | null;
+}
+
+export type StatsWindow = "50" | "500" | "all";
+export const STATS_WINDOWS: readonly StatsWindow[] = ["50", "500", "all"];
+
+// Win streaks that earn a celebration, highest first
+export const CELEBRATED_STREAKS = [10, 5] as const;
+export type Celebration = (typeof CELEBRATED_STREAKS)[number];
+
+export const shortPeriod = (p: string) => (p ? p.slice(-8) : "--");
+
+// Longer periods read better as m:ss
+export const formatCountdown = (secs: number) =>
+  secs < 60 ? `${secs}s` : `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, "0")}`;
+
+export const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+const TONE_CSS: Record<PickTone, string> = {
+  big: "pred-big",
+  small: "pred-small",
+  red: "pred-red",
+  green: "pred-green",
+  violet: "pred-violet",
+  // Only 0 and 5 carry two colors
+  "red-violet": "pred-num-0",
+  "green-violet": "pred-num-5",
+};
+
+// CSS class for a pick; number picks take the color of the digit
+export const predCss = (mode: PredictionMode, pred: string) => TONE_CSS[pickTone(pred, mode)];
+
+// Consecutive wins at the top of the history (newest first); pending rows end it
+export const currentWinStreak = (rows: readonly Pick<HistoryRow, "correct">[]): number => {
+  let streak = 0;
+  for (const row of rows) {
+    if (row.correct !== true) break;
+    streak++;
+  }
+  return streak;
+};
+
+// Celebration earned when the streak grows from `previous` to `current`
+export const celebrationFor = (previous: number, current: number): Celebration | null =>
+  CELEBRATED_STREAKS.find((n) => previous < n && current >= n) ?? null;
+
+export interface AccuracySummary {
+  n: number;
+  hits: number;
+  chance: number;
+  interval: Interval;
+  pValue: number;
+  verdict: string;
+}
+
+// Hit rate over one window, judged against the blind-guess rate of the mode
+export const summarizeAccuracy = (stats: PredictionStats, window: StatsWindow, mode: PredictionMode): AccuracySummary => {
+  const n = stats[`settled_${window}`];
+  const hits = stats[`hits_${window}`];
+  const chance = CHANCE_RATE[mode];
+  const interval = wilsonInterval(hits, n);
+  const verdict =
+    n === 0 ? "no settled predictions yet"
+    : interval.lower > chance ? "above chance"
+    : interval.upper < chance ? "below chance"
+    : "indistinguishable from chance";
+  return { n, hits, chance, interval, pValue: binomialTestPValue(hits, n, chance), verdict };
+};
+
+// Expected periods before a streak as long as the current one turns up by chance.
+// A run of wins is as likely as the hit rate allows; a run of losses as the miss rate.
+export const streakWaitPeriods = (stats: PredictionStats, mode: PredictionMode): number | null =>
+  stats.streak_length
+    ? expectedPeriodsUntilStreak(stats.streak_length, stats.streak_wins ? CHANCE_RATE[mode] : 1 - CHANCE_RATE[mode])
+    : null;
@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DEFAULT_GAME, GAME_IDS, GAMES, type GameId } from "../../supabase/functions/_shared/domain.ts";
+
+const WINDOWS = [500, 2000, 10000];
+// Reported by the upstream feed; the stored result itself is fine
+const UPSTREAM_KINDS = ["duplicate", "out_of_order"];
+
+const KIND_LABEL: Record<string, string> = {
+  gap: "missing periods",
+  duplicate: "repeated by the upstream",
+  invalid_issue: "invalid issue number",
+  out_of_order: "sent out of order",
+  bad_number: "number outside 0–9",
+  color_mismatch: "color does not match number",
+};
+
+const DataQuality = () => {
+  const [game, setGame] = useState<GameId>(DEFAULT_GAME);
+  const [limit, setLimit] = useState(2000);
+
+  const { data: findings, isLoading, error } = useQuery({
+    queryKey: ["data-quality", game, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_data_quality", { p_game: game, p_limit: limit });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const gaps = useMemo(() => findings?.filter((f) => f.kind === "gap") ?? [], [findings]);
+  const anomalies = useMemo(() => findings?.filter((f) => f.kind !== "gap") ?? [], [findings]);
+  const missing = gaps.reduce((acc, g) => acc + g.missing, 0);
+
+  return (
+    <div className="min-h-screen bg-muted p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold">Data quality</h1>
+          <div className="flex gap-4">
+            <Link to="/stats" className="text-primary underline hover:text-primary/90">Statistics</Link>
+            <Link to="/" className="text-primary underline hover:text-primary/90">Back to the panel</Link>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {GAME_IDS.map((g) => (
+            <Button key={g} size="sm" variant={g === game ? "default" : "outline"} onClick={() => setGame(g)}>
+              WinGo {GAMES[g].label}
+            </Button>
+          ))}
+          <span className="mx-2 border-l" />
+          {WINDOWS.map((n) => (
+            <Button key={n} size="sm" variant={n === limit ? "default" : "outline"} onClick={() => setLimit(n)}>
+              last {n.toLocaleString()}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading && <p className="text-muted-foreground">Checking stored results…</p>}
+        {error && <p className="text-destructive">Could not check results: {String((error as Error).message)}</p>}
+
+        {findings && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {findings.length === 0
+                    ? "No holes or anomalies"
+                    : `${missing.toLocaleString()} missing periods · ${anomalies.length} anomalies`}
+                </CardTitle>
+                <CardDescription>
+                  Newest {limit.toLocaleString()} archived results of WinGo {GAMES[game].label}. Each ingest backfills
+                  gaps among the newest results on its own while upstream history still covers them.
+                </CardDescription>
+              </CardHeader>
+              {gaps.length > 0 && (
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>First missing</TableHead>
+                        <TableHead>Last missing</TableHead>
+                        <TableHead className="text-right">Periods</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {gaps.map((g) => (
+                        <TableRow key={g.issue_number}>
+                          <TableCell className="font-mono">{g.issue_number}</TableCell>
+                          <TableCell className="font-mono">{g.last_issue}</TableCell>
+                          <TableCell className="text-right">{g.missing.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              )}
+            </Card>
+
+            {anomalies.length > 0 && (
+              <Card>
+                <CardContent className="pt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Issue</TableHead>
+                        <TableHead>Problem</TableHead>
+                        <TableHead>Detail</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {anomalies.map((a) => (
+                        <TableRow key={`${a.kind}-${a.issue_number}`}>
+                          <TableCell className="font-mono">{a.issue_number}</TableCell>
+                          <TableCell>
+                            <Badge variant={UPSTREAM_KINDS.includes(a.kind) ? "secondary" : "destructive"}>
+                              {KIND_LABEL[a.kind] ?? a.kind}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{a.detail}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataQuality;
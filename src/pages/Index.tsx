@@ -1,6 +1,31 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import ClockDebugOverlay from "@/components/ClockDebugOverlay";
 import WingoPanel from "@/components/WingoPanel";
+import { useServerClock } from "@/hooks/use-server-clock";
+import { DEFAULT_GAME, GAME_IDS, type GameId } from "../../supabase/functions/_shared/domain.ts";
+
+interface OpenPanel {
+  id: number;
+  game: GameId;
+}
 
 const Index = () => {
+  const [panels, setPanels] = useState<OpenPanel[]>([{ id: 0, game: DEFAULT_GAME }]);
+  // Countdowns read the synced clock; ?debug shows the measured offset
+  const clock = useServerClock();
+  const [searchParams] = useSearchParams();
+
+  const setGame = (id: number, game: GameId) =>
+    setPanels((ps) => ps.map((p) => (p.id === id ? { ...p, game } : p)));
+
+  // New panels start on the first game nobody is following yet
+  const unfollowed = GAME_IDS.find((g) => !panels.some((p) => p.game === g));
+  const addPanel = () => {
+    if (!unfollowed) return;
+    setPanels((ps) => [...ps, { id: Math.max(...ps.map((p) => p.id)) + 1, game: unfollowed }]);
+  };
+
   return (
     <>
       <iframe
@@ -15,7 +40,17 @@ const Index = () => {
           zIndex: 1,
         }}
       />
-      <WingoPanel />
+      {panels.map((panel, i) => (
+        <WingoPanel
+          key={panel.id}
+          game={panel.game}
+          stackIndex={i}
+          onGameChange={(game) => setGame(panel.id, game)}
+          onAddPanel={i === 0 && unfollowed ? addPanel : undefined}
+          onClose={i === 0 ? undefined : () => setPanels((ps) => ps.filter((p) => p.id !== panel.id))}
+        />
+      ))}
+      {searchParams.has("debug") && <ClockDebugOverlay clock={clock} />}
     </>
   );
 };
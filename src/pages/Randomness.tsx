@@ -0,0 +1,150 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DEFAULT_GAME, GAME_IDS, GAMES, type GameId } from "../../supabase/functions/_shared/domain.ts";
+import { runRandomnessSuite } from "../../supabase/functions/_shared/randomness.ts";
+
+const SAMPLE_SIZES = [1000, 5000, 20000];
+// PostgREST returns at most this many rows per request, so larger samples are read in pages
+const PAGE_SIZE = 1000;
+
+type ArchivedResult = { issue_number: string; number: number; color: string };
+
+const fetchArchivedResults = async (game: GameId, limit: number) => {
+  const rows: ArchivedResult[] = [];
+  const seen = new Set<string>();
+  for (let from = 0; from < limit; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc("get_archived_results", { p_game: game, p_limit: limit })
+      .range(from, Math.min(from + PAGE_SIZE, limit) - 1);
+    if (error) throw error;
+    // Results archived between two pages shift the offsets; skip what was already read
+    for (const row of data) {
+      if (seen.has(row.issue_number)) continue;
+      seen.add(row.issue_number);
+      rows.push(row);
+    }
+    if (data.length < Math.min(PAGE_SIZE, limit - from)) break;
+  }
+  return rows;
+};
+
+const formatP = (p: number) => (p < 0.0001 ? "< 0.0001" : p.toFixed(4));
+
+const Randomness = () => {
+  const [game, setGame] = useState<GameId>(DEFAULT_GAME);
+  const [limit, setLimit] = useState(5000);
+
+  const { data: results, isLoading, error } = useQuery({
+    queryKey: ["archived-results", game, limit],
+    queryFn: () => fetchArchivedResults(game, limit),
+  });
+
+  const report = useMemo(() => (results?.length ? runRandomnessSuite(results) : null), [results]);
+
+  return (
+    <div className="min-h-screen bg-muted p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold">Randomness report</h1>
+          <div className="flex gap-4">
+            <Link to="/stats" className="text-primary underline hover:text-primary/90">Statistics</Link>
+            <Link to="/" className="text-primary underline hover:text-primary/90">Back to the panel</Link>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {GAME_IDS.map((g) => (
+            <Button key={g} size="sm" variant={g === game ? "default" : "outline"} onClick={() => setGame(g)}>
+              WinGo {GAMES[g].label}
+            </Button>
+          ))}
+          <span className="mx-2 border-l" />
+          {SAMPLE_SIZES.map((n) => (
+            <Button key={n} size="sm" variant={n === limit ? "default" : "outline"} onClick={() => setLimit(n)}>
+              last {n.toLocaleString()}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading && <p className="text-muted-foreground">Loading archived results…</p>}
+        {error && <p className="text-destructive">Could not load results: {String((error as Error).message)}</p>}
+        {!isLoading && !error && !report && <p className="text-muted-foreground">No archived results for this game yet.</p>}
+
+        {report && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {report.failures.length === 0
+                    ? "No detectable pattern"
+                    : `${report.failures.length} test${report.failures.length > 1 ? "s" : ""} reject randomness`}
+                </CardTitle>
+                <CardDescription>
+                  {report.periods.toLocaleString()} draws analysed
+                  {report.periods < limit ? ` of the ${limit.toLocaleString()} asked for` : ""} · each test rejects below p = {report.threshold.toPrecision(2)}{" "}
+                  (α = {report.alpha} split over {report.tests.length} tests). When nothing is rejected, no engine can be
+                  expected to beat chance.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-10 gap-1 text-center text-xs">
+                  {report.digitCounts.map((count, digit) => (
+                    <div key={digit} className="rounded bg-background p-1">
+                      <div className="font-bold">{digit}</div>
+                      <div className="text-muted-foreground">{count}</div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Shannon entropy {report.entropy.bits.toFixed(4)} of {report.entropy.maxBits.toFixed(4)} bits (
+                  {(report.entropy.ratio * 100).toFixed(2)}%)
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="pt-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Test</TableHead>
+                      <TableHead className="text-right">n</TableHead>
+                      <TableHead className="text-right">Statistic</TableHead>
+                      <TableHead className="text-right">p-value</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.tests.map((t) => (
+                      <TableRow key={t.name}>
+                        <TableCell>{t.name}</TableCell>
+                        <TableCell className="text-right">{t.n.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {t.df !== undefined ? `χ²=${t.statistic.toFixed(2)} (df ${t.df})` : `z=${t.statistic.toFixed(2)}`}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatP(t.pValue)}</TableCell>
+                        <TableCell>
+                          {t.pValue < report.threshold
+                            ? <Badge variant="destructive">reject</Badge>
+                            : <Badge variant="secondary">pass</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Randomness;
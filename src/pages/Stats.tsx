@@ -0,0 +1,253 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  CHANCE_RATE,
+  DEFAULT_GAME,
+  GAME_IDS,
+  GAMES,
+  PREDICTION_MODES,
+  type GameId,
+  type PredictionMode,
+} from "../../supabase/functions/_shared/domain.ts";
+
+const ENGINE_COLORS = ["#2563eb", "#16a34a", "#dc2626", "#9333ea", "#ea580c"];
+const ROLLING_WINDOW = 50;
+
+const digitConfig = { draws: { label: "Draws", color: "#2563eb" } } satisfies ChartConfig;
+const streakConfig = {
+  wins: { label: "Win runs", color: "#16a34a" },
+  losses: { label: "Loss runs", color: "#dc2626" },
+} satisfies ChartConfig;
+
+// Runs the RPC and throws its error so react-query reports it
+const rpcQuery = async <T,>(request: PromiseLike<{ data: T | null; error: { message: string } | null }>) => {
+  const { data, error } = await request;
+  if (error) throw new Error(error.message);
+  return data ?? ([] as T);
+};
+
+// Red when a digit turns up more often than its share of the hour, blue when less
+const heatColor = (ratio: number) => {
+  const strength = Math.min(1, Math.abs(ratio - 1) * 2);
+  return ratio >= 1 ? `rgba(220, 38, 38, ${strength})` : `rgba(37, 99, 235, ${strength})`;
+};
+
+const Stats = () => {
+  const [game, setGame] = useState<GameId>(DEFAULT_GAME);
+  const [mode, setMode] = useState<PredictionMode>("color");
+
+  const digits = useQuery({
+    queryKey: ["digit-frequency", game],
+    queryFn: () => rpcQuery(supabase.rpc("get_digit_frequency", { p_game: game, p_limit: 1000 })),
+  });
+  const rolling = useQuery({
+    queryKey: ["rolling-hit-rate", game],
+    queryFn: () => rpcQuery(supabase.rpc("get_rolling_hit_rate", { p_game: game, p_window: ROLLING_WINDOW })),
+  });
+  const streaks = useQuery({
+    queryKey: ["streak-distribution", game, mode],
+    queryFn: () => rpcQuery(supabase.rpc("get_streak_distribution", { p_mode: mode, p_game: game })),
+  });
+  const heatmap = useQuery({
+    queryKey: ["hourly-digit-heatmap", game],
+    queryFn: () => rpcQuery(supabase.rpc("get_hourly_digit_heatmap", { p_game: game, p_days: 30 })),
+  });
+
+  const expectedDraws = (digits.data ?? []).reduce((acc, d) => acc + d.draws, 0) / 10;
+
+  // One row per sampled period, one column per engine
+  const { rollingRows, rollingConfig } = useMemo(() => {
+    const points = (rolling.data ?? []).filter((p) => p.mode === mode);
+    const engines = [...new Set(points.map((p) => p.engine_id))];
+    const byIssue = new Map<string, Record<string, string | number>>();
+    for (const p of points) {
+      const row = byIssue.get(p.issue_number) ?? { issue: p.issue_number.slice(-6) };
+      row[p.engine_id] = p.hit_rate;
+      byIssue.set(p.issue_number, row);
+    }
+    return {
+      rollingRows: [...byIssue.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, row]) => row),
+      rollingConfig: Object.fromEntries(
+        engines.map((e, i) => [e, { label: e, color: ENGINE_COLORS[i % ENGINE_COLORS.length] }]),
+      ) as ChartConfig,
+    };
+  }, [rolling.data, mode]);
+
+  const streakRows = useMemo(() => {
+    const byLength = new Map<number, { length: number; wins: number; losses: number }>();
+    for (const s of streaks.data ?? []) {
+      const row = byLength.get(s.length) ?? { length: s.length, wins: 0, losses: 0 };
+      if (s.wins) row.wins = s.runs;
+      else row.losses = s.runs;
+      byLength.set(s.length, row);
+    }
+    return [...byLength.values()].sort((a, b) => a.length - b.length);
+  }, [streaks.data]);
+
+  // draws[hour][digit] and the draws of each hour
+  const heat = useMemo(() => {
+    const cells = Array.from({ length: 24 }, () => Array<number>(10).fill(0));
+    for (const c of heatmap.data ?? []) if (c.hour < 24) cells[c.hour][c.digit] = c.draws;
+    return cells.map((row) => ({ row, total: row.reduce((a, b) => a + b, 0) }));
+  }, [heatmap.data]);
+
+  return (
+    <div className="min-h-screen bg-muted p-4 md:p-8">
+      <div className="mx-auto max-w-5xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold">Statistics</h1>
+          <div className="flex gap-4">
+            <Link to="/randomness" className="text-primary underline hover:text-primary/90">Randomness report</Link>
+            <Link to="/data-quality" className="text-primary underline hover:text-primary/90">Data quality</Link>
+            <Link to="/" className="text-primary underline hover:text-primary/90">Back to the panel</Link>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {GAME_IDS.map((g) => (
+            <Button key={g} size="sm" variant={g === game ? "default" : "outline"} onClick={() => setGame(g)}>
+              WinGo {GAMES[g].label}
+            </Button>
+          ))}
+          <span className="mx-2 border-l" />
+          {PREDICTION_MODES.map((m) => (
+            <Button key={m} size="sm" variant={m === mode ? "default" : "outline"} onClick={() => setMode(m)}>
+              {m}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Digit frequency</CardTitle>
+              <CardDescription>Last 1,000 draws; the line marks an even share</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={digitConfig}>
+                <BarChart data={digits.data ?? []}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="digit" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ReferenceLine y={expectedDraws} strokeDasharray="4 4" />
+                  <Bar dataKey="draws" fill="var(--color-draws)" radius={3} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Streak lengths</CardTitle>
+              <CardDescription>Runs of consecutive wins and losses of committed, settled {mode} predictions</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={streakConfig}>
+                <BarChart data={streakRows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="length" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="wins" fill="var(--color-wins)" radius={3} />
+                  <Bar dataKey="losses" fill="var(--color-losses)" radius={3} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rolling hit rate</CardTitle>
+            <CardDescription>
+              {mode} predictions per engine over the last {ROLLING_WINDOW} committed, settled picks; the line marks chance (
+              {(CHANCE_RATE[mode] * 100).toFixed(0)}%)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {rollingRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No settled {mode} predictions yet.</p>
+            ) : (
+              <ChartContainer config={rollingConfig} className="aspect-[3/1]">
+                <LineChart data={rollingRows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="issue" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis domain={[0, 1]} tickFormatter={(v: number) => `${Math.round(v * 100)}%`} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <ReferenceLine y={CHANCE_RATE[mode]} strokeDasharray="4 4" />
+                  {Object.keys(rollingConfig).map((engine) => (
+                    <Line
+                      key={engine}
+                      dataKey={engine}
+                      stroke={`var(--color-${engine})`}
+                      dot={false}
+                      connectNulls
+                      type="monotone"
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Hot and cold digits by hour (GMT+6)</CardTitle>
+            <CardDescription>
+              Last 30 days. Red cells were drawn more often than a tenth of the hour's draws, blue cells less.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full border-separate border-spacing-0.5 text-center text-xs">
+              <thead>
+                <tr>
+                  <th className="w-10 text-left font-medium text-muted-foreground">hour</th>
+                  {Array.from({ length: 10 }, (_, d) => <th key={d} className="font-medium">{d}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {heat.map(({ row, total }, hour) => (
+                  <tr key={hour}>
+                    <td className="text-left text-muted-foreground">{String(hour).padStart(2, "0")}</td>
+                    {row.map((draws, digit) => {
+                      const ratio = total ? draws / (total / 10) : 1;
+                      return (
+                        <td
+                          key={digit}
+                          className="rounded-sm py-1"
+                          style={{ background: total ? heatColor(ratio) : undefined }}
+                          title={`${String(hour).padStart(2, "0")}:00 · digit ${digit}: ${draws} of ${total} draws`}
+                        >
+                          {total ? draws : ""}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Stats;
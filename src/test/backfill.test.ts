@@ -0,0 +1,147 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import pages from "./fixtures/wingo-30s-pages.json";
+import {
+  abandonedGaps,
+  AUTO_BACKFILL_COOLDOWN_MS,
+  autoBackfillTarget,
+  DEFAULT_MAX_PAGES,
+  parseMaxPages,
+  runBackfill,
+  type BackfillDeps,
+} from "../../supabase/functions/_shared/backfill.ts";
+import { fetchUpstreamPage } from "../../supabase/functions/_shared/upstream-client.ts";
+import { historyPageUrl } from "../../supabase/functions/_shared/wingo-api.ts";
+
+// Recorded pages cover 20260221100050201..0240; 0215 never came back from upstream
+const issue = (seq: number) => `2026022110005${String(seq).padStart(4, "0")}`;
+
+let server: Server;
+let apiUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    if (url.pathname !== "/WinGo/WinGo_30S/GetHistoryIssuePage.json") {
+      res.writeHead(404).end();
+      return;
+    }
+    const pageNo = Number(url.searchParams.get("pageNo") ?? 1);
+    const page = pages[pageNo - 1] ?? { code: 0, msg: "Succeed", data: { list: [], pageNo } };
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(page));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/WinGo/WinGo_30S/GetHistoryIssuePage.json`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const memoryStore = (initial: string[]) => {
+  const stored = new Set(initial);
+  const upserted: string[] = [];
+  const deps: BackfillDeps = {
+    fetchPage: async (pageNo) => (await fetchUpstreamPage(historyPageUrl(apiUrl, pageNo))).items,
+    storedIssues: async (from, to) => new Set([...stored].filter((i) => i >= from && i <= to)),
+    upsert: async (rows) => {
+      for (const r of rows) {
+        upserted.push(r.issue_number);
+        stored.add(r.issue_number);
+      }
+    },
+  };
+  return { deps, upserted };
+};
+
+describe("runBackfill against a local upstream stand-in", () => {
+  const storedBefore = Array.from({ length: 40 }, (_, i) => issue(201 + i)).filter(
+    (i) => ![issue(205), issue(206), issue(215), issue(230)].includes(i),
+  );
+
+  it("walks back to the target issue and recovers missing periods", async () => {
+    const { deps, upserted } = memoryStore(storedBefore);
+    const report = await runBackfill({ issue: issue(203) }, deps);
+
+    expect(report).toMatchObject({
+      pagesFetched: 4,
+      reachedTarget: true,
+      from: issue(203),
+      to: issue(240),
+      missing: 4,
+      recovered: 3,
+      unrecoverable: [issue(215)],
+    });
+    expect(upserted.sort()).toEqual([issue(205), issue(206), issue(230)]);
+  });
+
+  it("is idempotent", async () => {
+    const { deps, upserted } = memoryStore(storedBefore);
+    await runBackfill({ issue: issue(203) }, deps);
+    const again = await runBackfill({ issue: issue(203) }, deps);
+
+    expect(again).toMatchObject({ missing: 1, recovered: 0, unrecoverable: [issue(215)] });
+    expect(upserted).toHaveLength(3);
+  });
+
+  it("stops at the end of upstream history when the target date is out of reach", async () => {
+    const { deps } = memoryStore([]);
+    const report = await runBackfill({ date: "2026-02-20" }, deps, 10);
+
+    expect(report.reachedTarget).toBe(false);
+    expect(report.pagesFetched).toBe(5);
+    expect(report.recovered).toBe(39);
+    expect(report.from).toBe(issue(201));
+  });
+
+  it("stops at maxPages", async () => {
+    const { deps } = memoryStore([]);
+    const report = await runBackfill({ date: "20260220" }, deps, 2);
+    expect(report).toMatchObject({ pagesFetched: 2, reachedTarget: false, from: issue(221), to: issue(240) });
+  });
+
+  it("stops walking once the run may not continue", async () => {
+    const { deps } = memoryStore([]);
+    let pages = 0;
+    const report = await runBackfill({ date: "20260220" }, { ...deps, canContinue: () => pages++ < 1 }, 10);
+    expect(report).toMatchObject({ pagesFetched: 1, reachedTarget: false, from: issue(231), to: issue(240) });
+  });
+
+  it("accepts maxPages only as a positive integer, capped at the default", () => {
+    expect(parseMaxPages(undefined)).toBe(DEFAULT_MAX_PAGES);
+    expect(parseMaxPages(3)).toBe(3);
+    expect(parseMaxPages(1e6)).toBe(DEFAULT_MAX_PAGES);
+    expect([0, -5, 2.5, "10", NaN, Infinity].map(parseMaxPages)).toEqual([null, null, null, null, null, null]);
+  });
+});
+
+describe("autoBackfillTarget", () => {
+  const findings = [
+    { kind: "color_mismatch", issue_number: issue(230) },
+    { kind: "gap", issue_number: issue(215) },
+    { kind: "gap", issue_number: issue(205) },
+  ];
+  const now = Date.parse("2026-02-21T12:00:00Z");
+
+  it("reaches back to the oldest gap", () => {
+    expect(autoBackfillTarget(findings, null, now)).toEqual({ issue: issue(205) });
+    expect(autoBackfillTarget(findings, now - AUTO_BACKFILL_COOLDOWN_MS, now)).toEqual({ issue: issue(205) });
+  });
+
+  it("does nothing without gaps or right after another backfill", () => {
+    expect(autoBackfillTarget(findings.slice(0, 1), null, now)).toBeNull();
+    expect(autoBackfillTarget(findings, now - 60_000, now)).toBeNull();
+  });
+
+  it("skips gaps an earlier walk gave up on", () => {
+    expect(autoBackfillTarget(findings, null, now, new Set([issue(205)]))).toEqual({ issue: issue(215) });
+    expect(autoBackfillTarget(findings, null, now, new Set([issue(205), issue(215)]))).toBeNull();
+  });
+
+  it("gives up on gaps the walk found unrecoverable or could not reach", () => {
+    const gaps = [issue(215), issue(205)];
+    const report = { pagesFetched: 4, from: issue(208), to: issue(240), missing: 1, recovered: 0 };
+    const outOfReach = { ...report, reachedTarget: false, unrecoverable: [issue(215)] };
+    expect(abandonedGaps(gaps, outOfReach)).toEqual(gaps);
+    expect(abandonedGaps(gaps, { ...report, reachedTarget: true, unrecoverable: [] })).toEqual([]);
+  });
+});
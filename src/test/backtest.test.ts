@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import history from "./fixtures/wingo-30s-history.json";
+import { runBacktest } from "../../supabase/functions/_shared/backtest.ts";
+import { getEngine, type PredictionEngine } from "../../supabase/functions/_shared/prediction-engines.ts";
+import { seededRandom } from "../../supabase/functions/_shared/random.ts";
+import { binomialTestPValue, expectedPeriodsUntilStreak, wilsonInterval } from "../../supabase/functions/_shared/stats.ts";
+
+const rows = [
+  { issue_number: "20260221100050003", number: 2, color: "red" },
+  { issue_number: "20260221100050001", number: 7, color: "green" },
+  { issue_number: "20260221100050002", number: 8, color: "red" },
+  { issue_number: "20260221100050004", number: 6, color: "red" },
+];
+
+describe("runBacktest", () => {
+  it("never shows the engine the period it is predicting", () => {
+    const seen: string[][] = [];
+    const spy: PredictionEngine = {
+      id: "spy",
+      description: "records what it sees",
+      modes: ["color"],
+      predict: ({ history }) => {
+        seen.push(history.map((r) => r.issue_number));
+        return { pick: "RED", probability: 0.5, explanation: null as never };
+      },
+    };
+    runBacktest(spy, rows, { mode: "color", warmup: 1 });
+    expect(seen).toEqual([
+      ["20260221100050001"],
+      ["20260221100050001", "20260221100050002"],
+      ["20260221100050001", "20260221100050002", "20260221100050003"],
+    ]);
+  });
+
+  it("scores hits and streaks", () => {
+    const report = runBacktest(getEngine("follow_last")!, rows, { mode: "color", warmup: 1 });
+    // GREEN→RED miss, RED→RED hit, RED→RED hit
+    expect(report).toMatchObject({ periods: 3, hits: 2, longestWinStreak: 2, longestLossStreak: 1 });
+    expect(report.hitRate).toBeCloseTo(2 / 3);
+    expect(report.baseline.expectedHits).toBe(1.5);
+  });
+
+  it("keeps a coin-flip engine indistinguishable from the baseline on recorded data", () => {
+    const report = runBacktest(getEngine("random_5050")!, history, {
+      mode: "size",
+      random: seededRandom(42),
+    });
+    expect(report.periods).toBe(history.length);
+    expect(report.confidenceInterval.lower).toBeLessThan(0.5);
+    expect(report.confidenceInterval.upper).toBeGreaterThan(0.5);
+    expect(report.baseline.beatsBaseline).toBe(false);
+  });
+
+  it("is reproducible with a seeded random source", () => {
+    const a = runBacktest(getEngine("random_5050")!, history, { mode: "color", random: seededRandom(7) });
+    const b = runBacktest(getEngine("random_5050")!, history, { mode: "color", random: seededRandom(7) });
+    expect(a).toEqual(b);
+  });
+});
+
+describe("stats", () => {
+  it("computes Wilson intervals", () => {
+    const ci = wilsonInterval(50, 100);
+    expect(ci.lower).toBeCloseTo(0.4038, 3);
+    expect(ci.upper).toBeCloseTo(0.5962, 3);
+    expect(wilsonInterval(0, 0)).toMatchObject({ lower: 0, upper: 1 });
+  });
+
+  it("computes exact two-sided binomial p-values", () => {
+    expect(binomialTestPValue(5, 10)).toBeCloseTo(1, 6);
+    expect(binomialTestPValue(9, 10)).toBeCloseTo(0.021484, 5);
+    expect(binomialTestPValue(60, 100)).toBeCloseTo(0.056887, 4);
+  });
+
+  it("computes the expected wait for a streak under chance", () => {
+    expect(expectedPeriodsUntilStreak(1, 0.5)).toBe(2);
+    expect(expectedPeriodsUntilStreak(5, 0.5)).toBe(62);
+    expect(expectedPeriodsUntilStreak(10, 0.5)).toBe(2046);
+    expect(expectedPeriodsUntilStreak(2, 0.1)).toBeCloseTo(110);
+    expect(expectedPeriodsUntilStreak(0, 0.5)).toBe(0);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { clockSample, estimateOffset } from "../../supabase/functions/_shared/clock.ts";
+import { secondsLeftInPeriod } from "../../supabase/functions/_shared/games.ts";
+
+describe("clock offset", () => {
+  it("measures the offset from the midpoint of the round trip", () => {
+    // Device 90s slow: it sends at 1000, the server answers at 91_050, it receives at 1100
+    expect(clockSample(1000, 91_050, 1100)).toEqual({ offsetMs: 90_000, roundTripMs: 100 });
+  });
+
+  it("trusts the fastest exchanges over slow ones", () => {
+    const estimate = estimateOffset([
+      clockSample(0, 5_400, 800), // slow, skewed by an asymmetric route
+      clockSample(1000, 6_020, 1040),
+      clockSample(2000, 7_030, 2050),
+    ]);
+    expect(estimate).toEqual({ offsetMs: 5_002.5, roundTripMs: 40, samples: 3 });
+    expect(estimateOffset([])).toBeNull();
+  });
+
+  it("corrects the countdown of a skewed device", () => {
+    const serverTime = Date.parse("2026-02-20T18:00:10Z");
+    const deviceTime = serverTime - 25_000;
+    const { offsetMs } = estimateOffset([clockSample(deviceTime, serverTime, deviceTime)])!;
+    expect(secondsLeftInPeriod("WinGo_30S", deviceTime)).toBe(15);
+    expect(secondsLeftInPeriod("WinGo_30S", deviceTime + offsetMs)).toBe(20);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import * as domain from "../../supabase/functions/_shared/domain.ts";
+
+const SHARED_DIR = resolve(__dirname, "../../supabase/functions/_shared");
+
+// Every module reachable from domain.ts, read as source
+const importGraph = (entry: string, seen = new Map<string, string>()) => {
+  if (seen.has(entry)) return seen;
+  const source = readFileSync(entry, "utf8");
+  seen.set(entry, source);
+  for (const [, spec] of source.matchAll(/from\s+"([^"]+)"/g)) {
+    if (spec.startsWith(".")) importGraph(join(dirname(entry), spec), seen);
+  }
+  return seen;
+};
+
+describe("shared domain module", () => {
+  it("stays dependency-free so Deno and Vite can both load it", () => {
+    const graph = importGraph(join(SHARED_DIR, "domain.ts"));
+    expect(graph.size).toBeGreaterThan(1);
+    for (const [file, source] of graph) {
+      for (const [, spec] of source.matchAll(/from\s+"([^"]+)"/g)) {
+        // Relative imports with an extension are the only form both runtimes resolve alike
+        expect(spec, file).toMatch(/^\.\.?\/.+\.ts$/);
+      }
+      expect(source, file).not.toMatch(/\bDeno\.|import\.meta\.env|\bprocess\./);
+    }
+  });
+
+  it("derives the tone of a pick from the same color rules as settlement", () => {
+    expect(domain.pickTone("BIG", "size")).toBe("big");
+    expect(domain.pickTone("VIOLET", "color")).toBe("violet");
+    expect(domain.pickTone("RED", "color")).toBe("red");
+    expect(domain.pickTone("0", "number")).toBe("red-violet");
+    expect(domain.pickTone("5", "number")).toBe("green-violet");
+    expect(domain.pickTone("8", "number")).toBe("red");
+    expect(domain.pickTone("3", "number")).toBe("green");
+
+    // A number pick's tone matches the color of the period it would win
+    for (let n = 0; n <= 9; n++) {
+      const outcome = domain.outcomeOf({ issue_number: "1", number: n, color: "" });
+      const tone = domain.pickTone(String(n), "number");
+      expect(tone.startsWith(outcome.color.toLowerCase()), `digit ${n}`).toBe(true);
+      expect(tone.endsWith("-violet")).toBe(domain.isWinningPick("VIOLET", outcome, "color"));
+    }
+  });
+});
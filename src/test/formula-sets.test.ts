@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { failureThresholds } from "../../supabase/functions/_shared/formula-sets.ts";
+import { getEngine } from "../../supabase/functions/_shared/prediction-engines.ts";
+import { seededRandom } from "../../supabase/functions/_shared/random.ts";
+import { longestRuns } from "../../supabase/functions/_shared/stats.ts";
+
+describe("failure thresholds", () => {
+  it("scales each mode's threshold to its chance rate", () => {
+    expect(failureThresholds(undefined)).toEqual({ color: 20, size: 20, number: 110 });
+    expect(failureThresholds("not a number")).toEqual(failureThresholds(undefined));
+    expect(failureThresholds("2880")).toEqual({ color: 11, size: 11, number: 54 });
+  });
+
+  it("lets a chance-level number engine through a week of losing streaks", () => {
+    const engine = getEngine("random_digit")!;
+    const pickRandom = seededRandom(7);
+    const drawRandom = seededRandom(11);
+    const hits = Array.from({ length: 7 * 2880 }, () => {
+      const { pick } = engine.predict({ history: [], mode: "number", random: pickRandom });
+      return pick === String(Math.floor(drawRandom() * 10));
+    });
+
+    const { losses } = longestRuns(hits);
+    expect(losses).toBeGreaterThan(40); // far past a fixed threshold of 10
+    expect(losses).toBeLessThan(failureThresholds(undefined).number);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { GAMES, isGameId, secondsLeftInPeriod } from "../../supabase/functions/_shared/games.ts";
+import { DEFAULT_API_URL, historyApiUrl } from "../../supabase/functions/_shared/wingo-api.ts";
+
+// 2026-02-21 00:00:00 GMT+6
+const dayStart = Date.parse("2026-02-20T18:00:00Z");
+
+describe("games", () => {
+  it("counts down to the next boundary of each interval", () => {
+    expect(secondsLeftInPeriod("WinGo_30S", dayStart)).toBe(30);
+    expect(secondsLeftInPeriod("WinGo_30S", dayStart + 31_000)).toBe(29);
+    expect(secondsLeftInPeriod("WinGo_1M", dayStart + 31_000)).toBe(29);
+    expect(secondsLeftInPeriod("WinGo_3M", dayStart + 61_500)).toBe(119);
+    expect(secondsLeftInPeriod("WinGo_5M", dayStart + 299_000)).toBe(1);
+  });
+
+  it("lines every period length up with the GMT+6 day start", () => {
+    for (const game of Object.values(GAMES)) {
+      expect(86_400 % game.periodSeconds).toBe(0);
+      expect(secondsLeftInPeriod(game.id, dayStart)).toBe(game.periodSeconds);
+    }
+  });
+
+  it("points each game at its own history feed", () => {
+    expect(DEFAULT_API_URL).toBe("https://draw.ar-lottery01.com/WinGo/WinGo_30S/GetHistoryIssuePage.json");
+    expect(historyApiUrl("WinGo_5M")).toBe("https://draw.ar-lottery01.com/WinGo/WinGo_5M/GetHistoryIssuePage.json");
+    expect(isGameId("WinGo_3M")).toBe(true);
+    expect(isGameId("WinGo_10M")).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { buildHealthReport } from "../../supabase/functions/_shared/health.ts";
+
+// Period 1201 of the 30s game closes at 10:00:30 GMT+6
+const now = Date.parse("2026-02-21T04:00:45Z");
+const latestResult = { issue_number: "20260221100051201" };
+const lastSuccessfulRun = { started_at: "2026-02-21T04:00:31Z", finished_at: "2026-02-21T04:00:33Z" };
+
+describe("buildHealthReport", () => {
+  it("is healthy when the feed is fresh and the next period is predicted", () => {
+    const report = buildHealthReport({
+      now,
+      lastSuccessfulRun,
+      latestResult,
+      nextIssue: "20260221100051202",
+      nextPredictionModes: ["color", "size", "number"],
+    });
+    expect(report).toMatchObject({
+      healthy: true,
+      stalenessPeriods: 0,
+      latestIssue: "20260221100051201",
+      nextPeriodPredicted: { color: true, size: true, number: true },
+    });
+  });
+
+  it("reports staleness in whole periods", () => {
+    const report = buildHealthReport({
+      now: now + 5 * 30_000,
+      lastSuccessfulRun,
+      latestResult,
+      nextIssue: "20260221100051202",
+      nextPredictionModes: ["color", "size", "number"],
+    });
+    expect(report.stalenessPeriods).toBe(5);
+    expect(report.healthy).toBe(false);
+  });
+
+  it("measures staleness in the game's own period length", () => {
+    // Period 201 of the 3-minute game closes at 10:03 GMT+6
+    const report = buildHealthReport({
+      now: now + 5 * 30_000,
+      lastSuccessfulRun,
+      latestResult: { issue_number: "20260221100020201" },
+      nextIssue: "20260221100020202",
+      nextPredictionModes: ["color", "size", "number"],
+    });
+    expect(report).toMatchObject({ stalenessPeriods: 0, healthy: true });
+  });
+
+  it("goes by the issue number, not when the row was stored", () => {
+    // A backfill just stored an hour-old period; the feed is still an hour behind
+    const report = buildHealthReport({
+      now: now + 3_600_000,
+      lastSuccessfulRun: { started_at: "2026-02-21T05:00:40Z", finished_at: "2026-02-21T05:00:44Z" },
+      latestResult,
+      nextIssue: "20260221100051202",
+      nextPredictionModes: ["color", "size", "number"],
+    });
+    expect(report).toMatchObject({ stalenessPeriods: 120, healthy: false });
+  });
+
+  it("is unhealthy without data or with a missing next prediction", () => {
+    expect(
+      buildHealthReport({ now, lastSuccessfulRun: null, latestResult: null, nextIssue: null, nextPredictionModes: [] }),
+    ).toMatchObject({ healthy: false, stalenessPeriods: null, nextPeriodPredicted: { color: false, size: false } });
+
+    expect(
+      buildHealthReport({ now, lastSuccessfulRun, latestResult, nextIssue: "20260221100051202", nextPredictionModes: ["color"] })
+        .healthy,
+    ).toBe(false);
+  });
+});
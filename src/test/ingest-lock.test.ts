@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { withIngestLock, type IngestLock } from "../../supabase/functions/_shared/ingest-lock.ts";
+
+// Same semantics as acquire_ingest_lock / release_ingest_lock: one lease per game,
+// taken when free, expired or already ours. Calls resolve on a later tick, like a round trip.
+const leaseStore = (now = () => Date.now()) => {
+  const leases = new Map<string, { holder: string; expiresAt: number }>();
+  const roundTrip = () => new Promise((resolve) => setTimeout(resolve, 1));
+  return {
+    leases,
+    lock: (game: string, holder: string, ttlSeconds = 60): IngestLock => {
+      const acquire = async () => {
+        await roundTrip();
+        const lease = leases.get(game);
+        if (lease && lease.expiresAt > now() && lease.holder !== holder) return false;
+        leases.set(game, { holder, expiresAt: now() + ttlSeconds * 1000 });
+        return true;
+      };
+      return {
+        acquire,
+        renew: acquire,
+        release: async () => {
+          await roundTrip();
+          if (leases.get(game)?.holder === holder) leases.delete(game);
+        },
+      };
+    },
+  };
+};
+
+const slowRun = (log: string[], id: string) => async () => {
+  log.push(id);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  return id;
+};
+
+describe("withIngestLock", () => {
+  it("coalesces parallel invocations for one game into a single run", async () => {
+    const store = leaseStore();
+    const runs: string[] = [];
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, (_, i) => withIngestLock(store.lock("WinGo_30S", `run-${i}`), slowRun(runs, `run-${i}`))),
+    );
+
+    expect(runs).toHaveLength(1);
+    expect(results.filter((r) => r.ran)).toEqual([{ ran: true, value: runs[0] }]);
+    expect(store.leases.size).toBe(0);
+  });
+
+  it("runs different games side by side", async () => {
+    const store = leaseStore();
+    const runs: string[] = [];
+
+    await Promise.all([
+      withIngestLock(store.lock("WinGo_30S", "a"), slowRun(runs, "WinGo_30S")),
+      withIngestLock(store.lock("WinGo_1M", "b"), slowRun(runs, "WinGo_1M")),
+    ]);
+
+    expect(runs.sort()).toEqual(["WinGo_1M", "WinGo_30S"]);
+  });
+
+  it("releases the lease when the run fails", async () => {
+    const store = leaseStore();
+
+    await expect(
+      withIngestLock(store.lock("WinGo_30S", "a"), async () => {
+        throw new Error("upstream down");
+      }),
+    ).rejects.toThrow("upstream down");
+
+    expect(await withIngestLock(store.lock("WinGo_30S", "b"), async () => "next")).toEqual({ ran: true, value: "next" });
+  });
+
+  it("keeps the lease while the work outlasts the TTL", async () => {
+    const store = leaseStore();
+    const held: boolean[] = [];
+
+    const long = withIngestLock(
+      store.lock("WinGo_30S", "long", 0.05),
+      async (lease) => {
+        for (let i = 0; i < 6; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 25));
+          held.push(lease.held());
+        }
+        return "long";
+      },
+      15,
+    );
+    // Well past the 50ms TTL the long run still holds the lease
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    const late = await withIngestLock(store.lock("WinGo_30S", "late", 0.05), async () => "late");
+
+    expect(late).toEqual({ ran: false });
+    expect(await long).toEqual({ ran: true, value: "long" });
+    expect(held.every(Boolean)).toBe(true);
+    expect(store.leases.size).toBe(0);
+  });
+
+  it("tells the work once the lease has passed to someone else", async () => {
+    const store = leaseStore();
+    let stolen = false;
+
+    const result = await withIngestLock(
+      store.lock("WinGo_30S", "a"),
+      async (lease) => {
+        store.leases.set("WinGo_30S", { holder: "b", expiresAt: Date.now() + 60_000 });
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        stolen = !lease.held();
+        return "a";
+      },
+      10,
+    );
+
+    expect(result).toEqual({ ran: true, value: "a" });
+    expect(stolen).toBe(true);
+    // Releasing does not drop the other holder's lease
+    expect(store.leases.get("WinGo_30S")?.holder).toBe("b");
+  });
+
+  it("lets a new run take over an expired lease", async () => {
+    let clock = 0;
+    const store = leaseStore(() => clock);
+    // A crashed run that never released
+    await store.lock("WinGo_30S", "crashed", 60).acquire();
+
+    expect(await withIngestLock(store.lock("WinGo_30S", "b"), async () => "b")).toEqual({ ran: false });
+    clock = 61_000;
+    expect(await withIngestLock(store.lock("WinGo_30S", "c"), async () => "c")).toEqual({ ran: true, value: "c" });
+  });
+});
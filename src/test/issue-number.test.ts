@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { GAME_IDS, GAMES, secondsLeftInPeriod } from "../../supabase/functions/_shared/games.ts";
+import {
+  findGaps,
+  formatIssueNumber,
+  issueAt,
+  issuesBetween,
+  nextIssue,
+  nextIssueNumber,
+  offsetIssue,
+  parseIssueNumber,
+  periodEndMs,
+  periodsBetween,
+  periodsPerDay,
+  periodStartMs,
+  previousIssue,
+  type IssueNumber,
+} from "../../supabase/functions/_shared/issue-number.ts";
+
+// 2026-02-21 00:00:00 GMT+6
+const midnight = Date.parse("2026-02-20T18:00:00Z");
+
+const parse = (raw: string) => {
+  const issue = parseIssueNumber(raw);
+  if (!issue) throw new Error(`unparseable ${raw}`);
+  return issue;
+};
+
+describe("issue number calendar", () => {
+  it("parses and formats the date, game and sequence", () => {
+    expect(parseIssueNumber("20260221100051202")).toEqual({ game: "WinGo_30S", date: "20260221", sequence: 1202 });
+    expect(parseIssueNumber("20260221100030288")).toEqual({ game: "WinGo_5M", date: "20260221", sequence: 288 });
+    expect(formatIssueNumber({ game: "WinGo_1M", date: "20260221", sequence: 7 })).toBe("20260221100010007");
+  });
+
+  it("rejects numbers that are not periods", () => {
+    expect(parseIssueNumber("2026022110005120")).toBeNull(); // too short
+    expect(parseIssueNumber("20260221999991202")).toBeNull(); // unknown game code
+    expect(parseIssueNumber("20260230100050001")).toBeNull(); // 30 February
+    expect(parseIssueNumber("20260221100050000")).toBeNull(); // sequences start at 1
+    expect(parseIssueNumber("20260221100052881")).toBeNull(); // a 30s day has 2880 periods
+    expect(parseIssueNumber("20260221100030289")).toBeNull(); // a 5m day has 288
+    expect(parseIssueNumber("n/a")).toBeNull();
+    expect(nextIssueNumber("n/a")).toBeNull();
+  });
+
+  it("rolls every game over to the next date's first period at midnight GMT+6", () => {
+    for (const game of GAME_IDS) {
+      const last: IssueNumber = { game, date: "20260220", sequence: periodsPerDay(game) };
+      const first: IssueNumber = { game, date: "20260221", sequence: 1 };
+      expect(nextIssue(last)).toEqual(first);
+      expect(previousIssue(first)).toEqual(last);
+      expect(periodEndMs(last)).toBe(midnight);
+      expect(periodStartMs(first)).toBe(midnight);
+      expect(periodsBetween(last, first)).toBe(1);
+      expect(nextIssueNumber(formatIssueNumber(last))).toBe(formatIssueNumber(first));
+    }
+  });
+
+  it("names the running period on either side of midnight", () => {
+    for (const game of GAME_IDS) {
+      const period = GAMES[game].periodSeconds * 1000;
+      expect(issueAt(game, midnight - 1)).toEqual({ game, date: "20260220", sequence: periodsPerDay(game) });
+      expect(issueAt(game, midnight)).toEqual({ game, date: "20260221", sequence: 1 });
+      expect(issueAt(game, midnight + period - 1)).toEqual({ game, date: "20260221", sequence: 1 });
+      expect(issueAt(game, midnight + period)).toEqual({ game, date: "20260221", sequence: 2 });
+    }
+  });
+
+  it("agrees with the countdown on every period of the day", () => {
+    for (const game of GAME_IDS) {
+      let issue: IssueNumber = { game, date: "20260220", sequence: periodsPerDay(game) - 2 };
+      for (let i = 0; i < periodsPerDay(game) + 5; i++) {
+        const start = periodStartMs(issue);
+        expect(issueAt(game, start)).toEqual(issue);
+        expect(secondsLeftInPeriod(game, start)).toBe(GAMES[game].periodSeconds);
+        expect(parseIssueNumber(formatIssueNumber(issue))).toEqual(issue);
+        const following = nextIssue(issue);
+        expect(periodStartMs(following)).toBe(periodEndMs(issue));
+        issue = following;
+      }
+      expect(issue.date).toBe("20260222");
+    }
+  });
+
+  it("crosses month, year and leap-day boundaries", () => {
+    expect(nextIssueNumber("20251231100052880")).toBe("20260101100050001");
+    expect(nextIssueNumber("20280228100030288")).toBe("20280229100030001");
+    expect(nextIssueNumber("20280229100030288")).toBe("20280301100030001");
+    expect(formatIssueNumber(offsetIssue(parse("20260301100010001"), -1))).toBe("20260228100011440");
+  });
+
+  it("finds gaps, including ones that span midnight", () => {
+    const issues = ["20260220100052879", "20260221100050002", "20260221100050003", "20260221100050006"].map(parse);
+    const gaps = findGaps([...issues].reverse());
+    expect(gaps.map(({ after, before, missing, crossesDay }) => [formatIssueNumber(after), formatIssueNumber(before), missing, crossesDay])).toEqual([
+      ["20260220100052879", "20260221100050002", 2, true],
+      ["20260221100050003", "20260221100050006", 2, false],
+    ]);
+    expect(issuesBetween(issues[0], issues[1]).map(formatIssueNumber)).toEqual(["20260220100052880", "20260221100050001"]);
+    expect(findGaps(issues.slice(1, 3))).toEqual([]);
+  });
+
+  it("refuses to compare issues of different games", () => {
+    expect(() => periodsBetween(parse("20260221100050001"), parse("20260221100010001"))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,121 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseIssueNumber, periodsBetween } from "../../supabase/functions/_shared/issue-number.ts";
+import {
+  handleMockRequest,
+  MOCK_HISTORY_PERIODS,
+  mockDraw,
+  mockHistoryPage,
+  mockStartTime,
+  type MockUpstreamOptions,
+} from "../../supabase/functions/_shared/mock-upstream.ts";
+import { digitFrequencyTest } from "../../supabase/functions/_shared/randomness.ts";
+import { fetchUpstreamPage } from "../../supabase/functions/_shared/upstream-client.ts";
+import {
+  historyApiUrl,
+  historyPageUrl,
+  validateHistoryPage,
+} from "../../supabase/functions/_shared/wingo-api.ts";
+
+// 2026-02-21 00:10:00 GMT+6: period 21 of the 30s day is running
+const now = Date.parse("2026-02-20T18:10:00Z");
+const steady: MockUpstreamOptions = { seed: 42, scenario: "steady" };
+
+const request = (path: string, at = now, options = steady) =>
+  handleMockRequest(new URL(path, "http://mock"), at, options);
+
+const issuesOf = (page: ReturnType<typeof mockHistoryPage>) =>
+  page.data.list.map((item) => (item as { issueNumber?: string }).issueNumber);
+
+describe("mock upstream", () => {
+  it("serves valid pages that end at the last closed period", () => {
+    const page = mockHistoryPage("WinGo_30S", now, 1, 10, steady);
+    expect(issuesOf(page)[0]).toBe("20260221100050020");
+    expect(issuesOf(mockHistoryPage("WinGo_30S", now, 2, 10, steady))[0]).toBe("20260221100050010");
+    expect(validateHistoryPage(page)).toMatchObject({ rejected: 0 });
+    expect(page.data.totalCount).toBe(MOCK_HISTORY_PERIODS);
+    expect(mockHistoryPage("WinGo_30S", now, 51, 10, steady).data.list).toEqual([]);
+  });
+
+  it("draws reproducibly from the seed", () => {
+    const issue = parseIssueNumber("20260221100050020")!;
+    expect(mockDraw(42, issue)).toEqual(mockDraw(42, issue));
+    expect(mockHistoryPage("WinGo_30S", now + 7_000, 1, 10, steady)).toEqual(mockHistoryPage("WinGo_30S", now, 1, 10, steady));
+
+    const digits = (seed: number) =>
+      Array.from({ length: 5 }, (_, p) => mockHistoryPage("WinGo_1M", now, p + 1, 50, { seed, scenario: "steady" }))
+        .flatMap((page) => page.data.list.map((item) => Number((item as { number: string }).number)));
+    expect(digits(8)).not.toEqual(digits(7));
+    expect(digitFrequencyTest(digits(7)).pValue).toBeGreaterThan(0.001);
+  });
+
+  it("goes down for part of every ten periods in the outage scenario", () => {
+    const outage: MockUpstreamOptions = { seed: 42, scenario: "outage" };
+    const statuses = Array.from({ length: 10 }, (_, i) => request("/WinGo/WinGo_30S/GetHistoryIssuePage.json", now + i * 30_000, outage).status);
+    expect(statuses.filter((s) => s === 503)).toHaveLength(3);
+    expect(statuses.filter((s) => s === 200)).toHaveLength(7);
+  });
+
+  it("corrupts items in the malformed scenario and repeats them in the duplicates scenario", () => {
+    const malformed = validateHistoryPage(mockHistoryPage("WinGo_30S", now, 1, 20, { seed: 42, scenario: "malformed" }));
+    expect(malformed.rejected).toBe(5);
+    expect(Object.keys(malformed.rejectedByField).sort()).toEqual(["color", "issueNumber", "number"]);
+
+    const issues = issuesOf(mockHistoryPage("WinGo_30S", now, 1, 20, { seed: 42, scenario: "duplicates" }));
+    expect(issues).toHaveLength(24);
+    expect(new Set(issues).size).toBe(20);
+    expect(validateHistoryPage(mockHistoryPage("WinGo_30S", now, 1, 20, { seed: 42, scenario: "duplicates" })).duplicates).toHaveLength(4);
+  });
+
+  it("starts the rollover scenario just before midnight GMT+6 and numbers the new day from 1", () => {
+    const start = mockStartTime("rollover", now);
+    expect(new Date(start).toISOString()).toBe("2026-02-21T17:58:30.000Z");
+
+    const issues = issuesOf(mockHistoryPage("WinGo_30S", start + 150_000, 1, 6, steady));
+    expect(issues).toEqual([
+      "20260222100050002",
+      "20260222100050001",
+      "20260221100052880",
+      "20260221100052879",
+      "20260221100052878",
+      "20260221100052877",
+    ]);
+    const parsed = issues.map((i) => parseIssueNumber(i!)!);
+    expect(parsed.slice(1).every((issue, i) => periodsBetween(issue, parsed[i]) === 1)).toBe(true);
+  });
+
+  it("answers unknown paths and games with 404", () => {
+    expect(request("/WinGo/WinGo_10M/GetHistoryIssuePage.json").status).toBe(404);
+    expect(request("/health").status).toBe(404);
+  });
+});
+
+describe("mock upstream over HTTP", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const { status, body } = request(req.url!);
+      res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("is read by the same client as the real feed", async () => {
+    const url = historyApiUrl("WinGo_5M", baseUrl);
+    expect(url).toBe(`${baseUrl}WinGo/WinGo_5M/GetHistoryIssuePage.json`);
+    const { items } = await fetchUpstreamPage(historyPageUrl(url, 1, 5));
+    expect(items.map((i) => i.issueNumber)).toEqual([
+      "20260221100030002",
+      "20260221100030001",
+      "20260220100030288",
+      "20260220100030287",
+      "20260220100030286",
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { isWinningPick, outcomeFor, outcomeOf } from "../../supabase/functions/_shared/outcome.ts";
+
+const result = (number: number, color: string) => ({ issue_number: "20260221100050001", number, color, premium: `1234${number}` });
+
+describe("outcomeOf", () => {
+  it("models number, size, primary color and violet", () => {
+    expect(outcomeOf(result(0, "red,violet"))).toEqual({
+      number: 0,
+      size: "SMALL",
+      color: "RED",
+      violet: true,
+      premium: "12340",
+    });
+    expect(outcomeOf(result(5, "green,violet"))).toMatchObject({ size: "BIG", color: "GREEN", violet: true });
+    expect(outcomeOf(result(7, "green"))).toMatchObject({ size: "BIG", color: "GREEN", violet: false });
+  });
+
+  it("falls back to the number's color when the stored color is unreadable", () => {
+    expect(outcomeOf(result(0, "???"))).toMatchObject({ color: "RED", violet: true });
+    expect(outcomeOf(result(3, ""))).toMatchObject({ color: "GREEN", violet: false });
+  });
+
+  it("describes a period with the canonical pick per mode", () => {
+    const r = result(4, "red");
+    expect(outcomeFor(r, "color")).toBe("RED");
+    expect(outcomeFor(r, "size")).toBe("SMALL");
+    expect(outcomeFor(r, "number")).toBe("4");
+  });
+});
+
+describe("isWinningPick", () => {
+  it("settles color picks including violet", () => {
+    const zero = outcomeOf(result(0, "red,violet"));
+    const five = outcomeOf(result(5, "green,violet"));
+    const six = outcomeOf(result(6, "red"));
+
+    expect(isWinningPick("RED", zero, "color")).toBe(true);
+    expect(isWinningPick("VIOLET", zero, "color")).toBe(true);
+    expect(isWinningPick("GREEN", zero, "color")).toBe(false);
+    expect(isWinningPick("GREEN", five, "color")).toBe(true);
+    expect(isWinningPick("VIOLET", five, "color")).toBe(true);
+    expect(isWinningPick("VIOLET", six, "color")).toBe(false);
+  });
+
+  it("settles size and exact-number picks", () => {
+    const seven = outcomeOf(result(7, "green"));
+    expect(isWinningPick("BIG", seven, "size")).toBe(true);
+    expect(isWinningPick("SMALL", seven, "size")).toBe(false);
+    expect(isWinningPick("7", seven, "number")).toBe(true);
+    expect(isWinningPick("1", seven, "number")).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ENGINE_IDS,
+  getEngine,
+  listEngines,
+  parseEngineConfig,
+  registerEngine,
+  resolveEngine,
+} from "../../supabase/functions/_shared/prediction-engines.ts";
+
+const history = [
+  { issue_number: "20260221100050001", number: 3, color: "green" },
+  { issue_number: "20260221100050002", number: 8, color: "red" },
+];
+
+describe("prediction engines", () => {
+  it("registers the built-in engines", () => {
+    const ids = listEngines().map((e) => e.id);
+    expect(ids).toContain("random_5050");
+    expect(ids).toContain("follow_last");
+    expect(ids).toContain("random_digit");
+  });
+
+  it("random_5050 picks from the injected random source", () => {
+    const engine = getEngine("random_5050")!;
+    expect(engine.predict({ history, mode: "color", random: () => 0.1 }).pick).toBe("RED");
+    expect(engine.predict({ history, mode: "color", random: () => 0.9 }).pick).toBe("GREEN");
+    expect(engine.predict({ history, mode: "size", random: () => 0.1 }).pick).toBe("BIG");
+
+    const out = engine.predict({ history, mode: "size", random: () => 0.9 });
+    expect(out).toMatchObject({ pick: "SMALL", probability: 0.5 });
+    expect(out.explanation).toMatchObject({ id: "random_5050", prediction: "SMALL", confidence: 0.5 });
+  });
+
+  it("follow_last repeats the latest outcome", () => {
+    const engine = getEngine("follow_last")!;
+    expect(engine.predict({ history, mode: "color" }).pick).toBe("RED");
+    expect(engine.predict({ history, mode: "size" }).pick).toBe("BIG");
+    expect(engine.predict({ history, mode: "number" }).pick).toBe("8");
+    expect(engine.predict({ history: [], mode: "size", random: () => 0.9 }).pick).toBe("SMALL");
+    expect(engine.predict({ history: [], mode: "number", random: () => 0.35 }).pick).toBe("3");
+  });
+
+  it("random_digit picks a digit with a 1-in-10 probability", () => {
+    const out = getEngine("random_digit")!.predict({ history, mode: "number", random: () => 0.999 });
+    expect(out).toMatchObject({ pick: "9", probability: 0.1 });
+  });
+
+  it("rejects duplicate registrations", () => {
+    expect(() => registerEngine(getEngine("random_5050")!)).toThrow(/already registered/);
+  });
+});
+
+describe("engine config", () => {
+  it("parses per-mode selections", () => {
+    expect(parseEngineConfig("color=follow_last, size=random_5050")).toEqual({
+      color: "follow_last",
+      size: "random_5050",
+    });
+    expect(parseEngineConfig(undefined)).toEqual({});
+    expect(() => parseEngineConfig("parity=random_5050")).toThrow(/Unknown prediction mode/);
+  });
+
+  it("resolves the default engine and rejects unknown ids", () => {
+    expect(resolveEngine("color").id).toBe(DEFAULT_ENGINE_IDS.color);
+    expect(resolveEngine("number").id).toBe("random_digit");
+    expect(resolveEngine("size", { size: "follow_last" }).id).toBe("follow_last");
+    expect(() => resolveEngine("color", { color: "nope" })).toThrow(/Unknown prediction engine/);
+    expect(() => resolveEngine("number", { number: "random_5050" })).toThrow(/does not support mode number/);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { getEngine, type PredictionEngine } from "../../supabase/functions/_shared/prediction-engines.ts";
+import { buildPredictions } from "../../supabase/functions/_shared/predictions.ts";
+
+const history = [
+  { issue_number: "20260221100050001", number: 3, color: "green" },
+  { issue_number: "20260221100050002", number: 8, color: "red" },
+];
+
+const followLast = getEngine("follow_last")!;
+const engines = { color: followLast, size: followLast, number: followLast } as Record<string, PredictionEngine>;
+
+describe("buildPredictions", () => {
+  const inputs = buildPredictions(history, "20260221100050003", engines, () => 0.1);
+
+  it("picks every mode for the next period and links it to its engine", () => {
+    const live = inputs.filter((p) => p.issue_number === "20260221100050003");
+    expect(live.map((p) => [p.mode, p.prediction])).toEqual([
+      ["color", "RED"],
+      ["size", "BIG"],
+      ["number", "8"],
+    ]);
+    expect(live.every((p) => p.engine.id === "follow_last" && p.formula_applied?.id === "follow_last")).toBe(true);
+  });
+
+  it("carries each mode's chance baseline as the fallback", () => {
+    expect(inputs.map((p) => [p.mode, p.fallback.engine.id, p.fallback.formula_applied?.id])).toEqual([
+      ["color", "random_5050", "random_5050"],
+      ["size", "random_5050", "random_5050"],
+      ["number", "random_digit", "random_digit"],
+    ]);
+  });
+
+  it("never predicts periods that were already drawn", () => {
+    expect(inputs).toHaveLength(3);
+    expect(inputs.every((p) => p.issue_number === "20260221100050003")).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import history from "./fixtures/wingo-30s-history.json";
+import { seededRandom } from "../../supabase/functions/_shared/random.ts";
+import {
+  autocorrelationTest,
+  digitFrequencyTest,
+  runRandomnessSuite,
+  runsTest,
+  serialTest,
+  shannonEntropy,
+} from "../../supabase/functions/_shared/randomness.ts";
+import { chiSquarePValue } from "../../supabase/functions/_shared/stats.ts";
+
+const random = seededRandom(11);
+const uniformDigits = Array.from({ length: 5000 }, () => Math.floor(random() * 10));
+const cyclicDigits = Array.from({ length: 5000 }, (_, i) => i % 10);
+const toResults = (digits: number[]) =>
+  digits.map((n, i) => ({
+    issue_number: `202602211000${String(10000 + i)}`,
+    number: n,
+    color: n % 2 === 0 ? "red" : "green",
+  }));
+
+describe("chiSquarePValue", () => {
+  it("matches table values", () => {
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(16.919, 9)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(123.225, 99)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(0, 9)).toBe(1);
+  });
+});
+
+describe("randomness tests", () => {
+  it("flags a skewed digit distribution", () => {
+    const skewed = uniformDigits.map((d, i) => (i % 4 === 0 ? 7 : d));
+    expect(digitFrequencyTest(skewed).pValue).toBeLessThan(1e-6);
+    expect(digitFrequencyTest(cyclicDigits).pValue).toBeCloseTo(1, 6);
+  });
+
+  it("counts runs and flags alternation and clustering", () => {
+    const r = runsTest("t", [true, true, false, true, false, false]);
+    expect(r.runs).toBe(4);
+    expect(r.expectedRuns).toBe(4);
+    const alternating = Array.from({ length: 200 }, (_, i) => i % 2 === 0);
+    expect(runsTest("t", alternating).statistic).toBeGreaterThan(10);
+    const clustered = Array.from({ length: 200 }, (_, i) => i < 100);
+    expect(runsTest("t", clustered).statistic).toBeLessThan(-10);
+  });
+
+  it("detects serial dependence a frequency test misses", () => {
+    expect(autocorrelationTest("t", cyclicDigits, 1).pValue).toBeLessThan(1e-6);
+    expect(serialTest("t", cyclicDigits, 10, 2).pValue).toBeLessThan(1e-6);
+    expect(autocorrelationTest("t", cyclicDigits, 10).r).toBeGreaterThan(0.99);
+  });
+
+  it("measures Shannon entropy in bits", () => {
+    expect(shannonEntropy(cyclicDigits, 10).bits).toBeCloseTo(Math.log2(10), 9);
+    expect(shannonEntropy([3, 3, 3], 10)).toMatchObject({ bits: 0, ratio: 0 });
+    expect(shannonEntropy([0, 1], 2).ratio).toBe(1);
+  });
+});
+
+describe("runRandomnessSuite", () => {
+  it("passes a uniform random sequence", () => {
+    const report = runRandomnessSuite(toResults(uniformDigits));
+    expect(report.periods).toBe(5000);
+    expect(report.failures).toEqual([]);
+    expect(report.entropy.ratio).toBeGreaterThan(0.99);
+  });
+
+  it("fails a sequence with a pattern", () => {
+    const report = runRandomnessSuite(toResults(cyclicDigits));
+    expect(report.failures).toContain("color runs");
+    expect(report.failures).toContain("digit pairs");
+    expect(report.failures).not.toContain("digit frequency");
+  });
+
+  it("runs over a stored fixture", () => {
+    const report = runRandomnessSuite(history);
+    expect(report.periods).toBe(history.length);
+    expect(report.tests.every((t) => t.pValue >= 0 && t.pValue <= 1)).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { handleMockRequest } from "../../supabase/functions/_shared/mock-upstream.ts";
+import {
+  backoffDelay,
+  breakerStatus,
+  CLOSED_BREAKER,
+  fetchUpstreamPage,
+  UpstreamError,
+  withCircuitBreaker,
+  type BreakerState,
+  type BreakerStore,
+  type UpstreamOptions,
+} from "../../supabase/functions/_shared/upstream-client.ts";
+
+const url = "http://upstream/WinGo/WinGo_30S/GetHistoryIssuePage.json";
+const okPage = { code: 0, data: { list: [{ issueNumber: "20260221100050001", number: "3", color: "green" }] } };
+
+const respond = (...responses: (Response | Error)[]) => {
+  const calls: string[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    calls.push(String(input));
+    const next = responses[Math.min(calls.length, responses.length) - 1];
+    if (next instanceof Error) throw next;
+    return next.clone();
+  }) as typeof fetch;
+  return { calls, fetchImpl };
+};
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+// No real waiting; the delays are recorded instead
+const options = (fetchImpl: typeof fetch, delays: number[] = []): UpstreamOptions => ({
+  fetchImpl,
+  sleep: async (ms) => void delays.push(ms),
+  random: () => 1,
+});
+
+const failure = (promise: Promise<unknown>) =>
+  promise.then(
+    () => expect.fail("expected an UpstreamError"),
+    (err: UpstreamError) => err,
+  );
+
+describe("fetchUpstreamPage", () => {
+  it("returns the validated page with the status and attempt count", async () => {
+    const { fetchImpl } = respond(json(okPage));
+    expect(await fetchUpstreamPage(url, options(fetchImpl))).toMatchObject({ status: 200, attempts: 1, rejected: 0 });
+  });
+
+  it("classifies network, HTTP, code and schema failures", async () => {
+    const cases: [Response | Error, string, number | null][] = [
+      [new TypeError("connection refused"), "network", null],
+      [json({}, 404), "http", 404],
+      [json({ code: 7, data: { list: [] } }), "api_code", 200],
+      [new Response("<html>maintenance</html>"), "schema", 200],
+      [json({ code: 0, data: "none" }), "schema", 200],
+    ];
+    for (const [response, kind, status] of cases) {
+      const err = await failure(fetchUpstreamPage(url, { ...options(respond(response).fetchImpl), retries: 0 }));
+      expect(err).toBeInstanceOf(UpstreamError);
+      expect([err.kind, err.status]).toEqual([kind, status]);
+    }
+  });
+
+  it("retries network errors and 5xx with growing backoff, but not answers that will not change", async () => {
+    const delays: number[] = [];
+    const flaky = respond(new TypeError("reset"), json({}, 503), json(okPage));
+    expect(await fetchUpstreamPage(url, options(flaky.fetchImpl, delays))).toMatchObject({ attempts: 3 });
+    expect(delays).toEqual([500, 1000]);
+
+    const down = respond(json({}, 502));
+    const err = await failure(fetchUpstreamPage(url, options(down.fetchImpl)));
+    expect([err.kind, err.attempts, down.calls.length]).toEqual(["http", 3, 3]);
+
+    const gone = respond(json({}, 404));
+    expect((await failure(fetchUpstreamPage(url, options(gone.fetchImpl)))).attempts).toBe(1);
+  });
+
+  it("times out a request that never answers", async () => {
+    const hang = ((_: RequestInfo | URL, init?: RequestInit) =>
+      new Promise((_resolve, reject) => init?.signal?.addEventListener("abort", () => reject(new Error("aborted"))))) as typeof fetch;
+    const err = await failure(fetchUpstreamPage(url, { ...options(hang), timeoutMs: 5, retries: 1 }));
+    expect([err.kind, err.message, err.attempts]).toEqual(["network", "Timed out after 5ms", 2]);
+  });
+
+  it("rides out the mock upstream's outage scenario", async () => {
+    // The last 3 of every 10 periods are down: period 8 fails, the backoff lands on 9, then on 11
+    let now = Date.parse("2026-02-20T18:03:30Z");
+    const fetchImpl = (async (input: RequestInfo | URL) => {
+      const { status, body } = handleMockRequest(new URL(String(input)), now, { seed: 1, scenario: "outage" });
+      return json(body, status);
+    }) as typeof fetch;
+    const sleep = async (ms: number) => void (now += ms * 60);
+
+    const page = await fetchUpstreamPage(url, { fetchImpl, sleep, random: () => 1, retries: 3 });
+    expect(page.attempts).toBe(3);
+    expect(page.items).toHaveLength(10);
+  });
+
+  it("spreads backoff between zero and the capped exponential step", () => {
+    expect([0, 1, 2, 3, 4].map((retry) => backoffDelay(retry, 500, 4000, () => 1))).toEqual([500, 1000, 2000, 4000, 4000]);
+    expect(backoffDelay(3, 500, 4000, () => 0.25)).toBe(1000);
+    expect(backoffDelay(3, 500, 4000, () => 0)).toBe(0);
+  });
+});
+
+describe("withCircuitBreaker", () => {
+  const memoryStore = () => {
+    const store = { state: CLOSED_BREAKER as BreakerState, saves: 0 };
+    const breaker: BreakerStore = {
+      load: async () => store.state,
+      save: async (state) => {
+        store.state = state;
+        store.saves++;
+      },
+    };
+    return { store, breaker };
+  };
+  const down = async () => {
+    throw new UpstreamError("HTTP 503", "http", 503);
+  };
+
+  it("opens after consecutive failures, fails fast, then lets one trial through after the cooldown", async () => {
+    let clock = Date.parse("2026-02-21T00:00:00Z");
+    const { store, breaker } = memoryStore();
+    const opts = { now: () => clock, threshold: 3, cooldownMs: 60_000 };
+    let calls = 0;
+    const call = () => {
+      calls++;
+      return down();
+    };
+
+    for (let i = 0; i < 3; i++) await expect(withCircuitBreaker(breaker, call, opts)).rejects.toMatchObject({ kind: "http" });
+    expect(store.state).toMatchObject({ state: "open", failures: 3, last_error: "HTTP 503" });
+
+    await expect(withCircuitBreaker(breaker, call, opts)).rejects.toMatchObject({ kind: "circuit_open", attempts: 0 });
+    expect(calls).toBe(3);
+
+    clock += 60_000;
+    expect(breakerStatus(store.state, clock, 60_000)).toBe("half_open");
+    // A failed trial re-opens it for another cooldown
+    await expect(withCircuitBreaker(breaker, call, opts)).rejects.toMatchObject({ kind: "http" });
+    expect(store.state.opened_at).toBe(new Date(clock).toISOString());
+    expect(breakerStatus(store.state, clock + 30_000, 60_000)).toBe("open");
+
+    clock += 60_000;
+    expect(await withCircuitBreaker(breaker, async () => "back", opts)).toBe("back");
+    expect(store.state).toEqual(CLOSED_BREAKER);
+  });
+
+  it("resets the count on success and only writes when something changed", async () => {
+    const { store, breaker } = memoryStore();
+    await expect(withCircuitBreaker(breaker, down)).rejects.toThrow();
+    await expect(withCircuitBreaker(breaker, down)).rejects.toThrow();
+    await withCircuitBreaker(breaker, async () => "ok");
+    await withCircuitBreaker(breaker, async () => "ok");
+
+    expect(store.state).toEqual(CLOSED_BREAKER);
+    expect(store.saves).toBe(3);
+  });
+
+  it("does not count failures that are not the upstream's", async () => {
+    const { store, breaker } = memoryStore();
+    await expect(withCircuitBreaker(breaker, async () => Promise.reject(new Error("DB down")))).rejects.toThrow("DB down");
+    expect(store.saves).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { outcomeFor, parseColor } from "../../supabase/functions/_shared/outcome.ts";
+import { toGameResultRow, validateHistoryPage, WingoApiFormatError } from "../../supabase/functions/_shared/wingo-api.ts";
+
+const item = (overrides: Record<string, unknown> = {}) => ({
+  issueNumber: "20260221100050001",
+  number: "3",
+  color: "green",
+  premium: "74523",
+  sum: 21,
+  ...overrides,
+});
+
+const page = (list: unknown[], code = 0) => ({ code, msg: "Succeed", data: { list, pageNo: 1, totalPage: 1 } });
+
+describe("parseColor", () => {
+  it("parses single and dual colors", () => {
+    expect(parseColor("red")).toEqual({ raw: "red", colors: ["red"], primary: "red", violet: false });
+    expect(parseColor("red,violet")).toEqual({
+      raw: "red,violet",
+      colors: ["red", "violet"],
+      primary: "red",
+      violet: true,
+    });
+    expect(parseColor("Green, Violet")).toMatchObject({ primary: "green", violet: true });
+  });
+
+  it("rejects unknown or contradictory colors", () => {
+    expect(parseColor("")).toBeNull();
+    expect(parseColor("blue")).toBeNull();
+    expect(parseColor("violet")).toBeNull();
+    expect(parseColor("red,green")).toBeNull();
+  });
+
+  it("drives color settlement", () => {
+    expect(outcomeFor({ issue_number: "1", number: 0, color: "red,violet" }, "color")).toBe("RED");
+    expect(outcomeFor({ issue_number: "1", number: 5, color: "green,violet" }, "color")).toBe("GREEN");
+  });
+});
+
+describe("validateHistoryPage", () => {
+  it("accepts well-formed items and normalises them", () => {
+    const { items, rejected } = validateHistoryPage(page([item(), item({ number: 0, color: "red,violet", sum: undefined })]));
+    expect(rejected).toBe(0);
+    expect(items[1]).toMatchObject({ number: 0, sum: 0, color: { primary: "red", violet: true } });
+    expect(toGameResultRow(items[0])).toEqual({
+      issue_number: "20260221100050001",
+      number: 3,
+      color: "green",
+      premium: "74523",
+      sum: 21,
+    });
+  });
+
+  it("rejects malformed items and counts them per field", () => {
+    const result = validateHistoryPage(
+      page([
+        item(),
+        item({ number: "12" }),
+        item({ number: "x", color: "blue" }),
+        item({ issueNumber: "abc" }),
+        item({ color: undefined }),
+        "garbage",
+      ]),
+    );
+    expect(result.items).toHaveLength(1);
+    expect(result.rejected).toBe(5);
+    expect(result.rejectedByField).toEqual({ number: 2, color: 2, issueNumber: 1, item: 1 });
+  });
+
+  it("lists the issues the page repeats or sends out of order", () => {
+    const result = validateHistoryPage(
+      page([
+        item({ issueNumber: "20260221100050004" }),
+        item({ issueNumber: "20260221100050003" }),
+        item({ issueNumber: "20260221100050003" }),
+        item({ issueNumber: "20260221100050001" }),
+        item({ issueNumber: "20260221100050002" }),
+      ]),
+    );
+    expect(result.items).toHaveLength(5);
+    expect(result.duplicates).toEqual(["20260221100050003"]);
+    expect(result.outOfOrder).toEqual(["20260221100050002"]);
+  });
+
+  it("throws a format error for bad envelopes and non-zero codes", () => {
+    expect(() => validateHistoryPage({ code: 0 })).toThrow(WingoApiFormatError);
+    expect(() => validateHistoryPage(page([], 5))).toThrow(/code 5/);
+    expect(() => validateHistoryPage("<html>")).toThrow(WingoApiFormatError);
+  });
+});
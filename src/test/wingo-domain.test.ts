@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  celebrationFor,
+  currentWinStreak,
+  formatCountdown,
+  predCss,
+  shortPeriod,
+  streakWaitPeriods,
+  summarizeAccuracy,
+  type PredictionStats,
+} from "@/lib/wingo-domain";
+
+const stats = (overrides: Partial<PredictionStats> = {}): PredictionStats => ({
+  settled_50: 50,
+  hits_50: 25,
+  settled_500: 500,
+  hits_500: 300,
+  settled_all: 0,
+  hits_all: 0,
+  streak_length: 0,
+  streak_wins: null,
+  ...overrides,
+});
+
+describe("wingo domain", () => {
+  it("formats periods and countdowns", () => {
+    expect(shortPeriod("20260221100051202")).toBe("00051202");
+    expect(shortPeriod("")).toBe("--");
+    expect(formatCountdown(7)).toBe("7s");
+    expect(formatCountdown(185)).toBe("3:05");
+  });
+
+  it("maps picks to CSS classes", () => {
+    expect(predCss("size", "BIG")).toBe("pred-big");
+    expect(predCss("size", "SMALL")).toBe("pred-small");
+    expect(predCss("color", "VIOLET")).toBe("pred-violet");
+    expect(predCss("color", "RED")).toBe("pred-red");
+    expect(predCss("color", "GREEN")).toBe("pred-green");
+    expect(predCss("number", "0")).toBe("pred-num-0");
+    expect(predCss("number", "5")).toBe("pred-num-5");
+    expect(predCss("number", "4")).toBe("pred-red");
+    expect(predCss("number", "7")).toBe("pred-green");
+  });
+
+  it("counts the win streak from the newest row and stops at a loss or a pending row", () => {
+    expect(currentWinStreak([{ correct: true }, { correct: true }, { correct: false }, { correct: true }])).toBe(2);
+    expect(currentWinStreak([{ correct: null }, { correct: true }])).toBe(0);
+    expect(currentWinStreak([])).toBe(0);
+  });
+
+  it("celebrates only when a streak crosses 5 or 10", () => {
+    expect(celebrationFor(4, 5)).toBe(5);
+    expect(celebrationFor(5, 6)).toBeNull();
+    expect(celebrationFor(9, 10)).toBe(10);
+    expect(celebrationFor(0, 12)).toBe(10);
+    expect(celebrationFor(12, 0)).toBeNull();
+  });
+
+  it("judges accuracy against the chance rate of the mode", () => {
+    expect(summarizeAccuracy(stats(), "50", "size").verdict).toBe("indistinguishable from chance");
+    expect(summarizeAccuracy(stats(), "500", "size").verdict).toBe("above chance");
+    expect(summarizeAccuracy(stats({ hits_500: 200 }), "500", "size").verdict).toBe("below chance");
+    expect(summarizeAccuracy(stats(), "all", "size")).toMatchObject({ n: 0, verdict: "no settled predictions yet" });
+  });
+
+  it("estimates the wait for a streak from the hit or miss rate", () => {
+    expect(streakWaitPeriods(stats(), "size")).toBeNull();
+    expect(streakWaitPeriods(stats({ streak_length: 5, streak_wins: true }), "size")).toBe(62);
+    // A number pick misses 90% of the time, so a run of two losses is common
+    expect(streakWaitPeriods(stats({ streak_length: 2, streak_wins: false }), "number")).toBeCloseTo(1 / 0.81 + 1 / 0.9);
+  });
+});
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useDraggable } from "@/hooks/use-draggable";
+import { usePeriodClock } from "@/hooks/use-period-clock";
+import { useStreak } from "@/hooks/use-streak";
+import { FALLBACK_POLL_MS, REFRESH_DEBOUNCE_MS, useWingoFeed } from "@/hooks/use-wingo-feed";
+import type { HistoryRow } from "@/lib/wingo-domain";
+
+// A Supabase client whose RPCs answer from `responses` and whose channel
+// status and broadcast notices are driven by the test
+const fake = vi.hoisted(() => {
+  const state = {
+    responses: {} as Record<string, unknown[]>,
+    rpc: null as unknown as ReturnType<typeof vi.fn>,
+    onStatus: null as ((status: string) => void) | null,
+    onChange: [] as ((message: { payload: Record<string, unknown> }) => void)[],
+    topics: [] as string[],
+    removed: 0,
+  };
+  state.rpc = vi.fn(async (name: string) => ({ data: state.responses[name] ?? [], error: null }));
+  const channel = {
+    on: (_type: string, _filter: unknown, cb: (message: { payload: Record<string, unknown> }) => void) => {
+      state.onChange.push(cb);
+      return channel;
+    },
+    subscribe: (cb: (status: string) => void) => {
+      state.onStatus = cb;
+      return channel;
+    },
+  };
+  return {
+    state,
+    supabase: {
+      rpc: state.rpc,
+      channel: (topic: string) => {
+        state.topics.push(topic);
+        return channel;
+      },
+      removeChannel: () => {
+        state.removed++;
+      },
+    },
+  };
+});
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: fake.supabase }));
+
+const row = (issue: string, correct: boolean | null): HistoryRow => ({
+  issue_number: issue,
+  number: 3,
+  color: "GREEN",
+  premium: "3",
+  prediction: "GREEN",
+  correct,
+  committed: true,
+});
+
+const callsTo = (name: string) => fake.state.rpc.mock.calls.filter(([n]) => n === name).length;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  fake.state.rpc.mockClear();
+  fake.state.onStatus = null;
+  fake.state.onChange = [];
+  fake.state.topics = [];
+  fake.state.removed = 0;
+  fake.state.responses = {
+    get_history_with_predictions: [row("20260221100051202", true), row("20260221100051201", false)],
+    get_prediction: [{ issue_number: "20260221100051203", prediction: "RED", formula_applied: null, commitment: "ab" }],
+    get_prediction_stats: [],
+  };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("usePeriodClock", () => {
+  it("counts down the running period and rolls over", () => {
+    vi.setSystemTime(Date.parse("2026-02-20T18:00:10Z"));
+    const { result } = renderHook(() => usePeriodClock("WinGo_30S"));
+    expect(result.current).toEqual({ secondsLeft: 20, countdown: "20s" });
+
+    act(() => vi.advanceTimersByTime(20_000));
+    expect(result.current.secondsLeft).toBe(30);
+  });
+});
+
+describe("useStreak", () => {
+  it("celebrates once when the streak reaches 5 and clears the celebration", () => {
+    const four = Array.from({ length: 4 }, (_, i) => ({ correct: true as boolean | null, i }));
+    const { result, rerender } = renderHook(({ history }) => useStreak(history), {
+      initialProps: { history: four },
+    });
+    expect(result.current).toEqual({ winStreak: 4, celebration: null });
+
+    rerender({ history: [{ correct: true, i: 4 }, ...four] });
+    expect(result.current).toEqual({ winStreak: 5, celebration: 5 });
+
+    act(() => vi.advanceTimersByTime(2500));
+    expect(result.current.celebration).toBeNull();
+
+    rerender({ history: [{ correct: true, i: 5 }, { correct: true, i: 4 }, ...four] });
+    expect(result.current).toEqual({ winStreak: 6, celebration: null });
+  });
+});
+
+describe("useWingoFeed", () => {
+  it("loads the history, the next pick and its period", async () => {
+    const { result } = renderHook(() => useWingoFeed("WinGo_1M", "color"));
+    await act(async () => {});
+
+    expect(result.current.history).toHaveLength(2);
+    expect(result.current.nextPeriod).toBe("20260221100051203");
+    expect(result.current.next).toMatchObject({ mode: "color", prediction: "RED", commitment: "ab" });
+    expect(result.current.hasNewRow).toBe(true);
+    expect(result.current.feed).toBe("connecting");
+  });
+
+  it("clears the pick once the next period has none", async () => {
+    const { result } = renderHook(() => useWingoFeed("WinGo_1M", "color"));
+    await act(async () => fake.state.onStatus!("SUBSCRIBED"));
+    expect(result.current.next).toMatchObject({ issue_number: "20260221100051203" });
+
+    fake.state.responses.get_history_with_predictions = [row("20260221100051203", false)];
+    fake.state.responses.get_prediction = [];
+    await act(async () => {
+      fake.state.onChange[0]({ payload: { issue_number: "20260221100051203" } });
+      vi.advanceTimersByTime(REFRESH_DEBOUNCE_MS);
+    });
+    expect(result.current.nextPeriod).toBe("20260221100051204");
+    expect(result.current.next).toBeNull();
+  });
+
+  it("refreshes once per burst of changes while live", async () => {
+    renderHook(() => useWingoFeed("WinGo_1M", "color"));
+    await act(async () => fake.state.onStatus!("SUBSCRIBED"));
+    const before = callsTo("get_history_with_predictions");
+
+    await act(async () => {
+      fake.state.onChange[0]({ payload: { issue_number: "20260221100051203" } });
+      fake.state.onChange[0]({ payload: { issue_number: "20260221100051203" } });
+      fake.state.onChange[1]({ payload: { mode: "size" } }); // another mode's prediction
+      vi.advanceTimersByTime(REFRESH_DEBOUNCE_MS);
+    });
+    expect(callsTo("get_history_with_predictions")).toBe(before + 1);
+  });
+
+  it("listens on the game's topic and keeps it when the mode changes", async () => {
+    const { rerender } = renderHook(({ mode }) => useWingoFeed("WinGo_1M", mode), {
+      initialProps: { mode: "color" as "color" | "size" },
+    });
+    await act(async () => fake.state.onStatus!("SUBSCRIBED"));
+    rerender({ mode: "size" });
+    await act(async () => {});
+
+    expect(fake.state.topics).toEqual(["wingo:WinGo_1M"]);
+    expect(fake.state.rpc).toHaveBeenLastCalledWith("get_prediction_stats", { p_mode: "size", p_game: "WinGo_1M" });
+
+    const before = callsTo("get_history_with_predictions");
+    await act(async () => {
+      fake.state.onChange[1]({ payload: { mode: "size" } });
+      vi.advanceTimersByTime(REFRESH_DEBOUNCE_MS);
+    });
+    expect(callsTo("get_history_with_predictions")).toBe(before + 1);
+  });
+
+  it("drops a slow answer for the game it has switched away from", async () => {
+    let answerOld: (value: unknown) => void = () => {};
+    fake.state.rpc.mockImplementationOnce(() => new Promise((resolve) => (answerOld = resolve)));
+    const { result, rerender } = renderHook(({ game }) => useWingoFeed(game, "color"), {
+      initialProps: { game: "WinGo_1M" as "WinGo_1M" | "WinGo_3M" },
+    });
+
+    fake.state.responses.get_history_with_predictions = [row("20260221100020021", false)];
+    rerender({ game: "WinGo_3M" });
+    await act(async () => {});
+    expect(result.current.history.map((r) => r.issue_number)).toEqual(["20260221100020021"]);
+
+    await act(async () => answerOld({ data: [row("20260221100051202", true)], error: null }));
+    expect(result.current.history.map((r) => r.issue_number)).toEqual(["20260221100020021"]);
+    expect(result.current.nextPeriod).toBe("20260221100020022");
+    expect(callsTo("get_prediction")).toBe(1);
+  });
+
+  it("polls only while the channel is down", async () => {
+    const { result, unmount } = renderHook(() => useWingoFeed("WinGo_1M", "color"));
+    await act(async () => fake.state.onStatus!("CHANNEL_ERROR"));
+    expect(result.current.feed).toBe("polling");
+
+    const before = callsTo("get_history_with_predictions");
+    await act(async () => vi.advanceTimersByTime(FALLBACK_POLL_MS * 2));
+    expect(callsTo("get_history_with_predictions")).toBe(before + 2);
+
+    await act(async () => fake.state.onStatus!("SUBSCRIBED"));
+    expect(result.current.feed).toBe("live");
+    const afterReconnect = callsTo("get_history_with_predictions");
+    await act(async () => vi.advanceTimersByTime(FALLBACK_POLL_MS * 2));
+    expect(callsTo("get_history_with_predictions")).toBe(afterReconnect);
+
+    unmount();
+    expect(fake.state.removed).toBe(1);
+  });
+});
+
+describe("useDraggable", () => {
+  beforeEach(() => {
+    // jsdom has no DOMMatrix; only the translation is read
+    vi.stubGlobal(
+      "DOMMatrix",
+      class {
+        m41 = 0;
+        m42 = 0;
+      },
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const mouse = (target: EventTarget, type: string, x: number, y: number) =>
+    target.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, clientX: x, clientY: y }));
+
+  it("moves the element and tells a tap from a drag", () => {
+    const el = document.createElement("div");
+    document.body.appendChild(el);
+    const onTap = vi.fn();
+    renderHook(() => useDraggable({ current: el }, { onTap }));
+
+    mouse(el, "mousedown", 10, 10);
+    mouse(document, "mousemove", 12, 11);
+    mouse(document, "mouseup", 12, 11);
+    expect(onTap).toHaveBeenCalledTimes(1);
+
+    mouse(el, "mousedown", 10, 10);
+    mouse(document, "mousemove", 40, 30);
+    mouse(document, "mouseup", 40, 30);
+    expect(onTap).toHaveBeenCalledTimes(1);
+    expect(el.style.transform).toBe("translate3d(30px,20px,0)");
+    el.remove();
+  });
+
+  it("leaves presses on buttons alone when asked to", () => {
+    const el = document.createElement("div");
+    const button = document.createElement("button");
+    el.appendChild(button);
+    document.body.appendChild(el);
+    renderHook(() => useDraggable({ current: el }, { ignoreButtons: true }));
+
+    mouse(button, "mousedown", 0, 0);
+    mouse(document, "mousemove", 50, 50);
+    expect(el.style.transform).toBe("");
+    el.remove();
+  });
+
+  it("lets a touch on a link inside the element turn into a click", () => {
+    const el = document.createElement("div");
+    const link = document.createElement("a");
+    link.href = "/stats";
+    el.appendChild(link);
+    document.body.appendChild(el);
+    renderHook(() => useDraggable({ current: el }, { ignoreButtons: true }));
+
+    const touch = new Event("touchstart", { bubbles: true, cancelable: true });
+    link.dispatchEvent(touch);
+    expect(touch.defaultPrevented).toBe(false);
+    el.remove();
+  });
+});
@@ -0,0 +1,142 @@
+import { formatIssueNumber, issuesBetween, parseIssueNumber } from "./issue-number.ts";
+import type { GameResultRow } from "./outcome.ts";
+import { toGameResultRow, type WingoApiItem } from "./wingo-api.ts";
+
+// Walk back until this issue, or until the first period of this date (YYYYMMDD)
+export type BackfillTarget = { issue: string } | { date: string };
+
+export interface BackfillDeps {
+  fetchPage: (pageNo: number) => Promise<WingoApiItem[]>;
+  // Issues already stored between two issue numbers, inclusive
+  storedIssues: (from: string, to: string) => Promise<Set<string>>;
+  upsert: (rows: GameResultRow[]) => Promise<void>;
+  // Checked before each page; the walk stops early once it returns false
+  // (the run lost its ingest lease)
+  canContinue?: () => boolean;
+}
+
+export interface BackfillReport {
+  pagesFetched: number;
+  reachedTarget: boolean;
+  from: string | null;
+  to: string | null;
+  missing: number;
+  recovered: number;
+  unrecoverable: string[];
+}
+
+export const DEFAULT_MAX_PAGES = 50;
+
+// maxPages of a backfill request: a positive integer, clamped to DEFAULT_MAX_PAGES.
+// Null when the caller sent something else.
+export const parseMaxPages = (raw: unknown): number | null => {
+  if (raw === undefined || raw === null) return DEFAULT_MAX_PAGES;
+  if (typeof raw !== "number" || !Number.isInteger(raw) || raw < 1) return null;
+  return Math.min(raw, DEFAULT_MAX_PAGES);
+};
+
+// Newest results checked for gaps after each ingest; about what DEFAULT_MAX_PAGES
+// of upstream history reaches back to
+export const AUTO_BACKFILL_WINDOW = 500;
+// Spaces out auto backfills; gaps a walk could not recover are recorded on the run
+// (abandonedGaps) and not walked again
+export const AUTO_BACKFILL_COOLDOWN_MS = 10 * 60_000;
+
+// Row of get_data_quality; gaps start at issue_number
+export interface DataQualityFinding {
+  kind: string;
+  issue_number: string;
+}
+
+// Starts of the gaps among the findings, minus those an earlier walk gave up on
+export const gapStarts = (findings: readonly DataQualityFinding[], abandoned: ReadonlySet<string> = new Set()) =>
+  findings.filter((f) => f.kind === "gap" && !abandoned.has(f.issue_number)).map((f) => f.issue_number);
+
+// Target reaching back to the oldest gap found, or null when there is none or a
+// backfill started less than the cooldown ago. Gaps in `abandoned` are left alone.
+export const autoBackfillTarget = (
+  findings: readonly DataQualityFinding[],
+  lastBackfillAt: number | null,
+  now: number,
+  abandoned: ReadonlySet<string> = new Set(),
+): BackfillTarget | null => {
+  const gaps = gapStarts(findings, abandoned);
+  if (gaps.length === 0) return null;
+  if (lastBackfillAt !== null && now - lastBackfillAt < AUTO_BACKFILL_COOLDOWN_MS) return null;
+  return { issue: gaps.reduce((min, issue) => (issue < min ? issue : min)) };
+};
+
+// Gaps a finished walk left missing: the upstream skipped their first period, or
+// the walk ran out of pages (or history) before reaching them. Walking again with
+// the same page budget would not recover them.
+export const abandonedGaps = (gaps: readonly string[], report: BackfillReport): string[] => {
+  const unrecoverable = new Set(report.unrecoverable);
+  return gaps.filter(
+    (gap) => unrecoverable.has(gap) || (!report.reachedTarget && (report.from === null || gap < report.from)),
+  );
+};
+
+// Lower bound as a string comparable with issue numbers (they share a date prefix)
+const targetBound = (target: BackfillTarget): string =>
+  "issue" in target ? target.issue : target.date.replace(/-/g, "");
+
+// Issues strictly between two known issues that were never seen, across midnight too
+const gapsBetween = (lower: string, upper: string): string[] => {
+  const [from, to] = [parseIssueNumber(lower), parseIssueNumber(upper)];
+  if (!from || !to || from.game !== to.game) return [];
+  return issuesBetween(from, to).map(formatIssueNumber);
+};
+
+export const runBackfill = async (
+  target: BackfillTarget,
+  deps: BackfillDeps,
+  maxPages = DEFAULT_MAX_PAGES,
+): Promise<BackfillReport> => {
+  const bound = targetBound(target);
+  const fetched = new Map<string, GameResultRow>();
+  let pagesFetched = 0;
+  let reachedTarget = false;
+
+  for (let pageNo = 1; pageNo <= maxPages; pageNo++) {
+    if (deps.canContinue && !deps.canContinue()) break;
+    const items = await deps.fetchPage(pageNo);
+    pagesFetched++;
+    if (items.length === 0) break;
+
+    for (const item of items) {
+      if (item.issueNumber >= bound) fetched.set(item.issueNumber, toGameResultRow(item));
+    }
+    const oldest = items.reduce((min, i) => (i.issueNumber < min ? i.issueNumber : min), items[0].issueNumber);
+    if (oldest <= bound) {
+      reachedTarget = true;
+      break;
+    }
+  }
+
+  const fetchedIssues = [...fetched.keys()].sort();
+  if (fetchedIssues.length === 0) {
+    return { pagesFetched, reachedTarget, from: null, to: null, missing: 0, recovered: 0, unrecoverable: [] };
+  }
+
+  const from = fetchedIssues[0];
+  const to = fetchedIssues[fetchedIssues.length - 1];
+  const stored = await deps.storedIssues(from, to);
+
+  const known = [...new Set([...stored, ...fetchedIssues])].sort();
+  const neverSeen = known.slice(1).flatMap((issue, i) => gapsBetween(known[i], issue));
+  const recoveredIssues = fetchedIssues.filter((issue) => !stored.has(issue));
+
+  if (recoveredIssues.length > 0) {
+    await deps.upsert(recoveredIssues.map((issue) => fetched.get(issue)!));
+  }
+
+  return {
+    pagesFetched,
+    reachedTarget,
+    from,
+    to,
+    missing: recoveredIssues.length + neverSeen.length,
+    recovered: recoveredIssues.length,
+    unrecoverable: neverSeen,
+  };
+};
@@ -0,0 +1,69 @@
+import { CHANCE_RATE, isWinningPick, outcomeOf, type GameResultRow, type PredictionMode } from "./outcome.ts";
+import type { PredictionEngine } from "./prediction-engines.ts";
+import { binomialTestPValue, longestRuns, wilsonInterval, type Interval } from "./stats.ts";
+
+export interface BacktestOptions {
+  mode: PredictionMode;
+  // Periods replayed as history only, before the first scored prediction
+  warmup?: number;
+  random?: () => number;
+  confidenceLevel?: number;
+}
+
+export interface BacktestReport {
+  engine: string;
+  mode: PredictionMode;
+  periods: number;
+  hits: number;
+  hitRate: number;
+  confidenceInterval: Interval;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  baseline: {
+    hitRate: number;
+    expectedHits: number;
+    // Two-sided exact binomial test against the blind-guess rate
+    pValue: number;
+    // True only when the whole confidence interval sits above the baseline
+    beatsBaseline: boolean;
+  };
+}
+
+// Replays stored results period by period. The engine only ever sees the
+// periods drawn before the one it is predicting.
+export const runBacktest = (
+  engine: PredictionEngine,
+  results: readonly GameResultRow[],
+  { mode, warmup = 0, random, confidenceLevel = 0.95 }: BacktestOptions,
+): BacktestReport => {
+  const ordered = [...results].sort((a, b) => a.issue_number.localeCompare(b.issue_number));
+  const outcomes: boolean[] = [];
+
+  for (let i = warmup; i < ordered.length; i++) {
+    const { pick } = engine.predict({ history: ordered.slice(0, i), mode, random });
+    outcomes.push(isWinningPick(pick, outcomeOf(ordered[i]), mode));
+  }
+
+  const periods = outcomes.length;
+  const hits = outcomes.filter(Boolean).length;
+  const confidenceInterval = wilsonInterval(hits, periods, confidenceLevel);
+  const streaks = longestRuns(outcomes);
+  const chance = CHANCE_RATE[mode];
+
+  return {
+    engine: engine.id,
+    mode,
+    periods,
+    hits,
+    hitRate: periods ? hits / periods : 0,
+    confidenceInterval,
+    longestWinStreak: streaks.wins,
+    longestLossStreak: streaks.losses,
+    baseline: {
+      hitRate: chance,
+      expectedHits: periods * chance,
+      pValue: binomialTestPValue(hits, periods, chance),
+      beatsBaseline: confidenceInterval.lower > chance,
+    },
+  };
+};
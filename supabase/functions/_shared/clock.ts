@@ -0,0 +1,33 @@
+// NTP-style clock offset estimation against a server that reports its own time.
+
+export interface ClockSample {
+  // Server time minus the local midpoint of the round trip, in ms
+  offsetMs: number;
+  roundTripMs: number;
+}
+
+export interface ClockEstimate {
+  offsetMs: number;
+  roundTripMs: number;
+  samples: number;
+}
+
+// One exchange: local send time t0, server time, local receive time t1 (all epoch ms).
+// Assumes the request and the response take equally long.
+export const clockSample = (t0: number, serverMs: number, t1: number): ClockSample => ({
+  offsetMs: serverMs - (t0 + t1) / 2,
+  roundTripMs: t1 - t0,
+});
+
+// The fastest exchange bounds the error best (±roundTrip/2); offsets of samples
+// within 10 ms of it are averaged to smooth out timer granularity.
+export const estimateOffset = (samples: readonly ClockSample[]): ClockEstimate | null => {
+  if (samples.length === 0) return null;
+  const fastest = Math.min(...samples.map((s) => s.roundTripMs));
+  const best = samples.filter((s) => s.roundTripMs <= fastest + 10);
+  return {
+    offsetMs: best.reduce((acc, s) => acc + s.offsetMs, 0) / best.length,
+    roundTripMs: fastest,
+    samples: samples.length,
+  };
+};
@@ -0,0 +1,9 @@
+// Domain rules shared by the Deno edge function and the Vite app: games and
+// the issue-number calendar, outcome types and settlement, and the shape of the
+// formula an engine stores with its pick. Dependency-free, so it
+// runs unchanged in both; keep it that way (see src/test/domain.test.ts).
+
+export * from "./games.ts";
+export * from "./issue-number.ts";
+export * from "./outcome.ts";
+export type { AppliedFormula } from "./prediction-engines.ts";
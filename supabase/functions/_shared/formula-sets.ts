@@ -0,0 +1,29 @@
+import { CHANCE_RATE, PREDICTION_MODES, type PredictionMode } from "./outcome.ts";
+import { expectedPeriodsUntilStreak } from "./stats.ts";
+
+// Formula sets are activated, linked and retired inside settle_and_predict; the
+// edge function supplies each mode's failure threshold. A mode whose engine was
+// retired is predicted by its chance baseline (the pick's fallback) until an
+// operator activates another set with activate_formula_set.
+
+// A set is retired by a miss streak that an engine hitting at chance runs into
+// about once in this many periods (a year of the 30s game)
+export const DEFAULT_RETIREMENT_HORIZON = 365 * 2880;
+
+// Shortest miss streak an engine hitting at `chance` needs at least `horizon`
+// periods, on average, to run into: 20 for color and size, 110 for number
+export const failureThresholdFor = (chance: number, horizon = DEFAULT_RETIREMENT_HORIZON): number => {
+  let length = 1;
+  while (expectedPeriodsUntilStreak(length, 1 - chance) < horizon) length++;
+  return length;
+};
+
+// Per-mode thresholds for settle_and_predict; `raw` is the
+// FORMULA_SET_RETIREMENT_HORIZON env var, in periods
+export const failureThresholds = (raw: string | undefined): Record<PredictionMode, number> => {
+  const n = Number(raw);
+  const horizon = Number.isInteger(n) && n > 0 ? n : DEFAULT_RETIREMENT_HORIZON;
+  return Object.fromEntries(
+    PREDICTION_MODES.map((mode) => [mode, failureThresholdFor(CHANCE_RATE[mode], horizon)]),
+  ) as Record<PredictionMode, number>;
+};
@@ -0,0 +1,31 @@
+// WinGo interval games. Every game has its own history feed and period length;
+// issue numbers are YYYYMMDD + issueCode + a 4-digit sequence within the day.
+export const GAME_IDS = ["WinGo_30S", "WinGo_1M", "WinGo_3M", "WinGo_5M"] as const;
+
+export type GameId = (typeof GAME_IDS)[number];
+
+export interface GameDefinition {
+  id: GameId;
+  label: string;
+  periodSeconds: number;
+  issueCode: string;
+}
+
+export const GAMES: Record<GameId, GameDefinition> = {
+  WinGo_30S: { id: "WinGo_30S", label: "30s", periodSeconds: 30, issueCode: "10005" },
+  WinGo_1M: { id: "WinGo_1M", label: "1m", periodSeconds: 60, issueCode: "10001" },
+  WinGo_3M: { id: "WinGo_3M", label: "3m", periodSeconds: 180, issueCode: "10002" },
+  WinGo_5M: { id: "WinGo_5M", label: "5m", periodSeconds: 300, issueCode: "10003" },
+};
+
+export const DEFAULT_GAME: GameId = "WinGo_30S";
+
+export const isGameId = (value: unknown): value is GameId =>
+  typeof value === "string" && (GAME_IDS as readonly string[]).includes(value);
+
+// Periods start at midnight GMT+6. That is a whole-hour offset and every period
+// length divides an hour, so boundaries line up with UTC epoch seconds.
+export const secondsLeftInPeriod = (game: GameId, now = Date.now()): number => {
+  const period = GAMES[game].periodSeconds;
+  return period - (Math.floor(now / 1000) % period);
+};
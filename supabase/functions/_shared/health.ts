@@ -0,0 +1,48 @@
+import { GAMES } from "./games.ts";
+import { parseIssueNumber, periodEndMs } from "./issue-number.ts";
+import { PREDICTION_MODES, type PredictionMode } from "./outcome.ts";
+
+export interface HealthInput {
+  now: number;
+  lastSuccessfulRun: { started_at: string; finished_at: string | null } | null;
+  latestResult: { issue_number: string } | null;
+  nextIssue: string | null;
+  nextPredictionModes: readonly PredictionMode[];
+}
+
+export interface HealthReport {
+  healthy: boolean;
+  lastSuccessfulRun: HealthInput["lastSuccessfulRun"];
+  latestIssue: string | null;
+  // Whole periods closed since the latest stored one, by issue number rather than
+  // insert time, so a freshly backfilled old row does not look current
+  stalenessPeriods: number | null;
+  nextIssue: string | null;
+  nextPeriodPredicted: Record<PredictionMode, boolean>;
+}
+
+// A feed more than this many periods behind is reported as unhealthy
+export const MAX_STALE_PERIODS = 2;
+
+export const buildHealthReport = (input: HealthInput): HealthReport => {
+  const latest = input.latestResult ? parseIssueNumber(input.latestResult.issue_number) : null;
+  const stalenessPeriods = latest
+    ? Math.max(0, Math.floor((input.now - periodEndMs(latest)) / (GAMES[latest.game].periodSeconds * 1000)))
+    : null;
+
+  const nextPeriodPredicted = Object.fromEntries(
+    PREDICTION_MODES.map((m) => [m, input.nextPredictionModes.includes(m)]),
+  ) as Record<PredictionMode, boolean>;
+
+  return {
+    healthy:
+      stalenessPeriods !== null &&
+      stalenessPeriods <= MAX_STALE_PERIODS &&
+      Object.values(nextPeriodPredicted).every(Boolean),
+    lastSuccessfulRun: input.lastSuccessfulRun,
+    latestIssue: input.latestResult?.issue_number ?? null,
+    stalenessPeriods,
+    nextIssue: input.nextIssue,
+    nextPeriodPredicted,
+  };
+};
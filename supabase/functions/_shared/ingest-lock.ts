@@ -0,0 +1,45 @@
+// One ingest (or backfill) per game at a time. Invocations that arrive while a
+// run holds the lease coalesce into it: they return without touching the data.
+export interface IngestLock {
+  acquire(): Promise<boolean>;
+  // Extends a lease we hold; false once it has passed to another holder
+  renew(): Promise<boolean>;
+  release(): Promise<void>;
+}
+
+// A crashed run cannot hold the lease for longer than this
+export const INGEST_LOCK_TTL_SECONDS = 60;
+// A live run renews its lease this often, so work longer than the TTL keeps it
+export const INGEST_LOCK_RENEW_MS = (INGEST_LOCK_TTL_SECONDS * 1000) / 3;
+
+// Handed to the locked work: long loops (the backfill walk) stop once it is lost
+export interface Lease {
+  held(): boolean;
+}
+
+export type LockedRun<T> = { ran: true; value: T } | { ran: false };
+
+export const withIngestLock = async <T>(
+  lock: IngestLock,
+  run: (lease: Lease) => Promise<T>,
+  renewMs = INGEST_LOCK_RENEW_MS,
+): Promise<LockedRun<T>> => {
+  if (!(await lock.acquire())) return { ran: false };
+
+  let held = true;
+  let renewing: Promise<void> = Promise.resolve();
+  const heartbeat = setInterval(() => {
+    renewing = lock.renew().then(
+      (ok) => void (held &&= ok),
+      () => void (held = false),
+    );
+  }, renewMs);
+
+  try {
+    return { ran: true, value: await run({ held: () => held }) };
+  } finally {
+    clearInterval(heartbeat);
+    await renewing;
+    await lock.release();
+  }
+};
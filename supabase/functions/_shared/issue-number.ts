@@ -0,0 +1,103 @@
+import { GAME_IDS, GAMES, type GameId } from "./games.ts";
+
+// Issue numbers as a calendar: YYYYMMDD + the game's issueCode + a 4-digit
+// sequence. The date is the GMT+6 day and the sequence counts its periods from
+// 1 at midnight GMT+6 (18:00 UTC the day before), so the number after the last
+// period of a day is not issue + 1 but the next date with sequence 0001.
+
+export interface IssueNumber {
+  game: GameId;
+  // GMT+6 calendar day, YYYYMMDD
+  date: string;
+  // Period of the day, from 1
+  sequence: number;
+}
+
+// A run of periods missing between two known issues of one game
+export interface IssueGap {
+  after: IssueNumber;
+  before: IssueNumber;
+  missing: number;
+  // The gap spans midnight GMT+6
+  crossesDay: boolean;
+}
+
+const GMT6_OFFSET_MS = 6 * 3_600_000;
+const ISSUE_PATTERN = /^(\d{8})(\d{5})(\d{4})$/;
+
+const periodMs = (game: GameId) => GAMES[game].periodSeconds * 1000;
+
+export const periodsPerDay = (game: GameId) => 86_400 / GAMES[game].periodSeconds;
+
+// Epoch ms of midnight GMT+6 starting a YYYYMMDD day, or null for a day that does not exist
+const dayStartMs = (date: string): number | null => {
+  const [y, m, d] = [date.slice(0, 4), date.slice(4, 6), date.slice(6, 8)].map(Number);
+  const utc = new Date(Date.UTC(y, m - 1, d));
+  if (utc.getUTCFullYear() !== y || utc.getUTCMonth() !== m - 1 || utc.getUTCDate() !== d) return null;
+  return utc.getTime() - GMT6_OFFSET_MS;
+};
+
+const dateAt = (ms: number) => new Date(ms + GMT6_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, "");
+
+// The game is read from the issue code. Null for anything that is not a real
+// period: unknown code, impossible date, or a sequence past the end of the day.
+export const parseIssueNumber = (raw: string): IssueNumber | null => {
+  const match = ISSUE_PATTERN.exec(raw);
+  if (!match) return null;
+  const [, date, code, seq] = match;
+  const game = GAME_IDS.find((g) => GAMES[g].issueCode === code);
+  const sequence = Number(seq);
+  if (!game || dayStartMs(date) === null || sequence < 1 || sequence > periodsPerDay(game)) return null;
+  return { game, date, sequence };
+};
+
+export const formatIssueNumber = (issue: IssueNumber): string =>
+  `${issue.date}${GAMES[issue.game].issueCode}${String(issue.sequence).padStart(4, "0")}`;
+
+export const periodStartMs = (issue: IssueNumber): number =>
+  dayStartMs(issue.date)! + (issue.sequence - 1) * periodMs(issue.game);
+
+// When the period closes and its result is drawn (wingo_period_close_at in SQL)
+export const periodEndMs = (issue: IssueNumber): number => periodStartMs(issue) + periodMs(issue.game);
+
+// Issue of the period running at an epoch ms
+export const issueAt = (game: GameId, ms: number): IssueNumber => {
+  const date = dateAt(ms);
+  return { game, date, sequence: Math.floor((ms - dayStartMs(date)!) / periodMs(game)) + 1 };
+};
+
+// Issue `periods` periods later (earlier when negative), across day boundaries
+export const offsetIssue = (issue: IssueNumber, periods: number): IssueNumber =>
+  issueAt(issue.game, periodStartMs(issue) + periods * periodMs(issue.game));
+
+export const nextIssue = (issue: IssueNumber) => offsetIssue(issue, 1);
+
+export const previousIssue = (issue: IssueNumber) => offsetIssue(issue, -1);
+
+// Periods from `from` to `to`; negative when `to` is earlier
+export const periodsBetween = (from: IssueNumber, to: IssueNumber): number => {
+  if (from.game !== to.game) throw new RangeError(`Cannot compare issues of ${from.game} and ${to.game}`);
+  return (periodStartMs(to) - periodStartMs(from)) / periodMs(from.game);
+};
+
+// Issues strictly between two issues of one game, oldest first
+export const issuesBetween = (from: IssueNumber, to: IssueNumber): IssueNumber[] =>
+  Array.from({ length: Math.max(0, periodsBetween(from, to) - 1) }, (_, i) => offsetIssue(from, i + 1));
+
+// Next issue number after a raw one, or null when it does not parse
+export const nextIssueNumber = (latest: string): string | null => {
+  const issue = parseIssueNumber(latest);
+  return issue ? formatIssueNumber(nextIssue(issue)) : null;
+};
+
+// Runs of missing periods in a list of issues of one game (any order, duplicates allowed)
+export const findGaps = (issues: readonly IssueNumber[]): IssueGap[] => {
+  const ordered = [...issues].sort((a, b) => periodStartMs(a) - periodStartMs(b));
+  const gaps: IssueGap[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const [after, before] = [ordered[i - 1], ordered[i]];
+    const missing = periodsBetween(after, before) - 1;
+    if (missing > 0) gaps.push({ after, before, missing, crossesDay: after.date !== before.date });
+  }
+  return gaps;
+};
@@ -0,0 +1,122 @@
+import { isGameId, type GameId } from "./games.ts";
+import { formatIssueNumber, issueAt, offsetIssue, periodStartMs, type IssueNumber } from "./issue-number.ts";
+import { colorOfNumber } from "./outcome.ts";
+import { seededRandom } from "./random.ts";
+
+// Stand-in for the upstream GetHistoryIssuePage.json feed on a simulated clock,
+// served by scripts/mock-upstream.ts. Draws are a pure function of the seed and
+// the issue number, so every page is reproducible at any simulated time.
+
+export type MockScenario = "steady" | "outage" | "malformed" | "duplicates" | "rollover";
+
+export const MOCK_SCENARIOS: readonly MockScenario[] = ["steady", "outage", "malformed", "duplicates", "rollover"];
+
+export interface MockUpstreamOptions {
+  seed: number;
+  scenario: MockScenario;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// Periods of history the feed keeps; older pages come back empty
+export const MOCK_HISTORY_PERIODS = 500;
+// outage: the feed is down for the last OUTAGE_PERIODS of every OUTAGE_CYCLE periods
+const OUTAGE_CYCLE = 10;
+const OUTAGE_PERIODS = 3;
+// rollover: the clock starts this long before midnight GMT+6
+const ROLLOVER_LEAD_MS = 90_000;
+
+const PATH_PATTERN = /^\/WinGo\/([^/]+)\/GetHistoryIssuePage\.json$/;
+
+// FNV-1a, to turn the seed and an issue number into the seed of its draw
+const hash = (seed: number, text: string) => {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  return h;
+};
+
+export interface MockItem {
+  issueNumber: string;
+  number: string;
+  color: string;
+  premium: string;
+  sum: number;
+}
+
+export const mockDraw = (seed: number, issue: IssueNumber): MockItem => {
+  const issueNumber = formatIssueNumber(issue);
+  const random = seededRandom(hash(seed, issueNumber));
+  const n = Math.floor(random() * 10);
+  const { primary, violet } = colorOfNumber(n);
+  return {
+    issueNumber,
+    number: String(n),
+    color: violet ? `${primary},violet` : primary,
+    premium: String(Math.floor(random() * 100_000)).padStart(5, "0"),
+    sum: Math.floor(random() * 46),
+  };
+};
+
+// Simulated time when the server starts: now, or shortly before the next midnight GMT+6
+export const mockStartTime = (scenario: MockScenario, realNow: number): number => {
+  if (scenario !== "rollover") return realNow;
+  const today = issueAt("WinGo_30S", realNow);
+  const nextMidnight = periodStartMs({ ...today, sequence: 1 }) + 86_400_000;
+  return nextMidnight - ROLLOVER_LEAD_MS;
+};
+
+// One corruption per field, in turn, so each kind of rejection shows up
+const MALFORMATIONS: ((item: MockItem) => unknown)[] = [
+  (item) => ({ ...item, number: "x" }),
+  (item) => ({ ...item, color: "blue" }),
+  ({ number, color, premium, sum }) => ({ number, color, premium, sum }),
+];
+
+const scenarioItems = (scenario: MockScenario, issue: IssueNumber, item: MockItem): unknown[] => {
+  if (scenario === "malformed" && issue.sequence % 4 === 0) {
+    return [MALFORMATIONS[(issue.sequence / 4) % MALFORMATIONS.length](item)];
+  }
+  if (scenario === "duplicates" && issue.sequence % 5 === 0) return [item, item];
+  return [item];
+};
+
+export const mockHistoryPage = (
+  game: GameId,
+  now: number,
+  pageNo: number,
+  pageSize: number,
+  { seed, scenario }: MockUpstreamOptions,
+) => {
+  // The running period has not been drawn yet
+  const latest = offsetIssue(issueAt(game, now), -1);
+  const first = (pageNo - 1) * pageSize;
+  const count = Math.max(0, Math.min(pageSize, MOCK_HISTORY_PERIODS - first));
+  const list = Array.from({ length: count }, (_, i) => offsetIssue(latest, -(first + i))).flatMap((issue) =>
+    scenarioItems(scenario, issue, mockDraw(seed, issue)),
+  );
+  return {
+    code: 0,
+    msg: "Succeed",
+    data: { list, pageNo, totalPage: Math.ceil(MOCK_HISTORY_PERIODS / pageSize), totalCount: MOCK_HISTORY_PERIODS },
+  };
+};
+
+// Answers a request URL the way the upstream does, at simulated time `now`
+export const handleMockRequest = (url: URL, now: number, options: MockUpstreamOptions): MockResponse => {
+  const game = PATH_PATTERN.exec(url.pathname)?.[1];
+  if (!game || !isGameId(game)) return { status: 404, body: { code: 404, msg: "Not Found" } };
+
+  if (options.scenario === "outage") {
+    const running = issueAt(game, now);
+    if (running.sequence % OUTAGE_CYCLE >= OUTAGE_CYCLE - OUTAGE_PERIODS) {
+      return { status: 503, body: { code: 503, msg: "Service Unavailable" } };
+    }
+  }
+
+  const pageNo = Math.max(1, Number(url.searchParams.get("pageNo")) || 1);
+  const pageSize = Math.min(50, Math.max(1, Number(url.searchParams.get("pageSize")) || 10));
+  return { status: 200, body: mockHistoryPage(game, now, pageNo, pageSize, options) };
+};
@@ -0,0 +1,106 @@
+// Outcome helpers shared by the edge function and the offline tooling.
+
+export type PredictionMode = "color" | "size" | "number";
+
+export const PREDICTION_MODES: readonly PredictionMode[] = ["color", "size", "number"];
+
+// Picks each mode accepts. Color picks may also be VIOLET (drawn on 0 and 5).
+export const MODE_PICKS: Record<PredictionMode, readonly string[]> = {
+  color: ["RED", "GREEN", "VIOLET"],
+  size: ["BIG", "SMALL"],
+  number: ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"],
+};
+
+// Hit rate of a blind guess among the mode's primary picks
+export const CHANCE_RATE: Record<PredictionMode, number> = {
+  color: 0.5,
+  size: 0.5,
+  number: 0.1,
+};
+
+export interface GameResultRow {
+  issue_number: string;
+  number: number;
+  color: string;
+  premium?: string | null;
+  sum?: number | null;
+}
+
+export type ColorName = "red" | "green" | "violet";
+
+// Structured form of the upstream color string, e.g. "red,violet"
+export interface ParsedColor {
+  raw: string;
+  colors: ColorName[];
+  primary: "red" | "green";
+  violet: boolean;
+}
+
+const COLOR_NAMES: readonly string[] = ["red", "green", "violet"];
+
+// Returns null for anything that is not a red/green color optionally paired with violet
+export const parseColor = (raw: string): ParsedColor | null => {
+  const tokens = raw.toLowerCase().split(/[\s,|/]+/).filter(Boolean);
+  if (tokens.length === 0 || tokens.some((t) => !COLOR_NAMES.includes(t))) return null;
+  const primaries = tokens.filter((t) => t !== "violet");
+  if (new Set(primaries).size !== 1) return null;
+  return {
+    raw,
+    colors: [...new Set(tokens)] as ColorName[],
+    primary: primaries[0] as "red" | "green",
+    violet: tokens.includes("violet"),
+  };
+};
+
+// Color the game assigns to a number: evens red, odds green, 0 and 5 also violet
+export const colorOfNumber = (n: number): { primary: "red" | "green"; violet: boolean } => ({
+  primary: n % 2 === 0 ? "red" : "green",
+  violet: n === 0 || n === 5,
+});
+
+// Colors a pick stands for, for display: the size itself, the color named by a
+// color pick, or the color of the digit for a number pick
+export type PickTone = "big" | "small" | "red" | "green" | "violet" | "red-violet" | "green-violet";
+
+export const pickTone = (pick: string, mode: PredictionMode): PickTone => {
+  if (mode === "size") return pick === "BIG" ? "big" : "small";
+  if (mode === "color") return pick === "VIOLET" ? "violet" : pick === "RED" ? "red" : "green";
+  const { primary, violet } = colorOfNumber(Number(pick));
+  return violet ? `${primary}-violet` : primary;
+};
+
+export interface Outcome {
+  number: number;
+  size: "BIG" | "SMALL";
+  color: "RED" | "GREEN";
+  violet: boolean;
+  premium: string | null;
+}
+
+export const outcomeOf = (result: GameResultRow): Outcome => {
+  // Stored colors are validated on ingest; fall back to the number's color otherwise
+  const color = parseColor(result.color) ?? colorOfNumber(result.number);
+  return {
+    number: result.number,
+    size: result.number <= 4 ? "SMALL" : "BIG",
+    color: color.primary === "red" ? "RED" : "GREEN",
+    violet: color.violet,
+    premium: result.premium ?? null,
+  };
+};
+
+// Canonical pick describing a drawn period ("RED", "BIG", "7", ...)
+export const outcomeFor = (result: GameResultRow, mode: PredictionMode): string => {
+  const outcome = outcomeOf(result);
+  if (mode === "color") return outcome.color;
+  if (mode === "size") return outcome.size;
+  return String(outcome.number);
+};
+
+// Settlement rule: a color pick wins when the drawn number carries that color,
+// so RED wins on 0 (red + violet) and VIOLET wins on 0 and 5.
+export const isWinningPick = (pick: string, outcome: Outcome, mode: PredictionMode): boolean => {
+  if (mode === "color") return pick === "VIOLET" ? outcome.violet : pick === outcome.color;
+  if (mode === "size") return pick === outcome.size;
+  return pick === String(outcome.number);
+};
@@ -0,0 +1,166 @@
+import {
+  CHANCE_RATE,
+  MODE_PICKS,
+  outcomeFor,
+  PREDICTION_MODES,
+  type GameResultRow,
+  type PredictionMode,
+} from "./outcome.ts";
+
+// Shape stored in predictions.formula_applied and rendered by WingoPanel
+export interface AppliedFormula {
+  id: string;
+  type: string;
+  condition: string;
+  prediction: string;
+  confidence: number;
+  support: number;
+  description: string;
+}
+
+export interface EngineInput {
+  // Drawn periods known before the one being predicted, oldest first
+  history: readonly GameResultRow[];
+  mode: PredictionMode;
+  // Injected so engines stay deterministic under test; defaults to Math.random
+  random?: () => number;
+}
+
+export interface EngineOutput {
+  pick: string;
+  probability: number;
+  explanation: AppliedFormula;
+}
+
+export interface PredictionEngine {
+  id: string;
+  description: string;
+  modes: readonly PredictionMode[];
+  predict(input: EngineInput): EngineOutput;
+}
+
+export type EngineConfig = Partial<Record<PredictionMode, string>>;
+
+export const DEFAULT_ENGINE_IDS: Record<PredictionMode, string> = {
+  color: "random_5050",
+  size: "random_5050",
+  number: "random_digit",
+};
+
+const PICKS: Record<"color" | "size", readonly [string, string]> = {
+  color: ["RED", "GREEN"],
+  size: ["BIG", "SMALL"],
+};
+
+// ─── BUILT-IN ENGINES ──────────────────────────────────────────────
+const random5050: PredictionEngine = {
+  id: "random_5050",
+  description: "Pure 50/50 coin flip",
+  modes: ["color", "size"],
+  predict: ({ mode, random = Math.random }) => {
+    const [a, b] = PICKS[mode as "color" | "size"];
+    const pick = random() < 0.5 ? a : b;
+    return {
+      pick,
+      probability: 0.5,
+      explanation: {
+        id: "random_5050",
+        type: "math_random",
+        condition: "Math.random() < 0.5",
+        prediction: pick,
+        confidence: 0.5,
+        support: 1,
+        description: `50/50 random → ${pick}`,
+      },
+    };
+  },
+};
+
+const randomDigit: PredictionEngine = {
+  id: "random_digit",
+  description: "Uniform random digit 0-9",
+  modes: ["number"],
+  predict: ({ random = Math.random }) => {
+    const pick = MODE_PICKS.number[Math.min(9, Math.floor(random() * 10))];
+    return {
+      pick,
+      probability: 0.1,
+      explanation: {
+        id: "random_digit",
+        type: "math_random",
+        condition: "floor(Math.random() * 10)",
+        prediction: pick,
+        confidence: 0.1,
+        support: 1,
+        description: `1-in-10 random → ${pick}`,
+      },
+    };
+  },
+};
+
+const followLast: PredictionEngine = {
+  id: "follow_last",
+  description: "Repeats the outcome of the latest drawn period",
+  modes: PREDICTION_MODES,
+  predict: (input) => {
+    const last = input.history[input.history.length - 1];
+    // Nothing to follow yet: fall back to a blind guess
+    if (!last) return (input.mode === "number" ? randomDigit : random5050).predict(input);
+    const pick = outcomeFor(last, input.mode);
+    const probability = CHANCE_RATE[input.mode];
+    return {
+      pick,
+      probability,
+      explanation: {
+        id: "follow_last",
+        type: "streak_follow",
+        condition: `last ${input.mode} = ${pick}`,
+        prediction: pick,
+        confidence: probability,
+        support: 1,
+        description: `Follow last result → ${pick}`,
+      },
+    };
+  },
+};
+
+// ─── REGISTRY ──────────────────────────────────────────────────────
+const registry = new Map<string, PredictionEngine>();
+
+export const registerEngine = (engine: PredictionEngine) => {
+  if (registry.has(engine.id)) {
+    throw new Error(`Prediction engine "${engine.id}" is already registered`);
+  }
+  registry.set(engine.id, engine);
+};
+
+export const getEngine = (id: string): PredictionEngine | undefined => registry.get(id);
+
+export const listEngines = (): PredictionEngine[] => [...registry.values()];
+
+registerEngine(random5050);
+registerEngine(randomDigit);
+registerEngine(followLast);
+
+// Parses "color=random_5050,size=follow_last,number=random_digit" (the PREDICTION_ENGINES env var)
+export const parseEngineConfig = (raw: string | undefined | null): EngineConfig => {
+  const config: EngineConfig = {};
+  if (!raw) return config;
+  for (const part of raw.split(",")) {
+    const [mode, id] = part.split("=").map((s) => s.trim());
+    if (!mode || !id) continue;
+    if (!(PREDICTION_MODES as readonly string[]).includes(mode)) {
+      throw new Error(`Unknown prediction mode "${mode}" in engine config`);
+    }
+    config[mode as PredictionMode] = id;
+  }
+  return config;
+};
+
+export const resolveEngine = (mode: PredictionMode, config: EngineConfig = {}): PredictionEngine => {
+  const id = config[mode] ?? DEFAULT_ENGINE_IDS[mode];
+  const engine = registry.get(id);
+  if (!engine) throw new Error(`Unknown prediction engine "${id}" for mode ${mode}`);
+  if (!engine.modes.includes(mode)) throw new Error(`Prediction engine "${id}" does not support mode ${mode}`);
+  return engine;
+};
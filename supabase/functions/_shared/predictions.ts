@@ -0,0 +1,44 @@
+import { PREDICTION_MODES, type GameResultRow, type PredictionMode } from "./outcome.ts";
+import { resolveEngine, type AppliedFormula, type PredictionEngine } from "./prediction-engines.ts";
+
+// One element of settle_and_predict's p_predictions
+export interface PredictionInput {
+  issue_number: string;
+  mode: PredictionMode;
+  prediction: string;
+  formula_applied: AppliedFormula | null;
+  // The RPC links each pick to its engine's active formula set
+  engine: { id: string; description: string };
+  // The mode's chance baseline, inserted instead while the engine is retired
+  fallback: Omit<PredictionInput, "issue_number" | "mode" | "fallback">;
+}
+
+// Row returned by settle_and_predict
+export interface PredictionChange {
+  change: "predicted" | "settled";
+  issue_number: string;
+  mode: PredictionMode;
+  prediction: string;
+  correct: boolean | null;
+  formula_set_version: number | null;
+}
+
+// Picks for the next period, one per mode. Past periods are never predicted: the
+// RPC only accepts periods that are still open. history must be oldest first.
+export const buildPredictions = (
+  history: readonly GameResultRow[],
+  nextIssue: string,
+  engines: Record<PredictionMode, PredictionEngine>,
+  random?: () => number,
+): PredictionInput[] =>
+  PREDICTION_MODES.map((mode) => {
+    const pickWith = (engine: PredictionEngine) => {
+      const { pick, explanation } = engine.predict({ history, mode, random });
+      return {
+        prediction: pick,
+        formula_applied: explanation,
+        engine: { id: engine.id, description: engine.description },
+      };
+    };
+    return { issue_number: nextIssue, mode, ...pickWith(engines[mode]), fallback: pickWith(resolveEngine(mode)) };
+  });
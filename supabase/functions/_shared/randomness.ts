@@ -0,0 +1,146 @@
+// Randomness diagnostics for a drawn outcome sequence. Every test reports a p-value
+// under the hypothesis that draws are independent and uniform; when none of them
+// rejects it, there is no pattern an engine could exploit to beat chance.
+import { outcomeOf, type GameResultRow } from "./outcome.ts";
+import { chiSquarePValue, chiSquareUniform, normalCdf } from "./stats.ts";
+
+export interface TestResult {
+  name: string;
+  // Chi-square statistic, or z score for the normal-approximation tests
+  statistic: number;
+  df?: number;
+  pValue: number;
+  // Observations the test used (draws, pairs, triples, ...)
+  n: number;
+}
+
+export interface EntropyResult {
+  bits: number;
+  maxBits: number;
+  ratio: number;
+}
+
+export interface RandomnessReport {
+  periods: number;
+  digitCounts: number[];
+  entropy: EntropyResult;
+  tests: TestResult[];
+  alpha: number;
+  // Per-test threshold after the Bonferroni correction for running several tests
+  threshold: number;
+  // Names of the tests whose p-value falls below the threshold
+  failures: string[];
+}
+
+export interface RandomnessOptions {
+  lags?: readonly number[];
+  alpha?: number;
+}
+
+export const DEFAULT_LAGS: readonly number[] = [1, 2, 3, 5, 10];
+export const DEFAULT_ALPHA = 0.01;
+
+const twoSided = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+// Chi-square goodness of fit of the digits 0–9 against a uniform draw
+export const digitFrequencyTest = (digits: readonly number[]): TestResult & { counts: number[] } => {
+  const counts = Array<number>(10).fill(0);
+  for (const d of digits) counts[d]++;
+  const statistic = chiSquareUniform(counts);
+  return { name: "digit frequency", statistic, df: 9, pValue: chiSquarePValue(statistic, 9), n: digits.length, counts };
+};
+
+// Wald–Wolfowitz runs test: too few runs means clustering, too many means alternation
+export const runsTest = (name: string, seq: readonly boolean[]): TestResult & { runs: number; expectedRuns: number } => {
+  const n = seq.length;
+  const n1 = seq.filter(Boolean).length;
+  const n2 = n - n1;
+  let runs = n > 0 ? 1 : 0;
+  for (let i = 1; i < n; i++) if (seq[i] !== seq[i - 1]) runs++;
+  if (n1 === 0 || n2 === 0) return { name, statistic: 0, pValue: 1, n, runs, expectedRuns: runs };
+
+  const expectedRuns = (2 * n1 * n2) / n + 1;
+  const variance = (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1));
+  const statistic = variance > 0 ? (runs - expectedRuns) / Math.sqrt(variance) : 0;
+  return { name, statistic, pValue: twoSided(statistic), n, runs, expectedRuns };
+};
+
+// Lag-k autocorrelation; under independence r·√n is roughly standard normal
+export const autocorrelationTest = (name: string, values: readonly number[], lag: number): TestResult & { lag: number; r: number } => {
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / (n || 1);
+  let num = 0, den = 0;
+  for (let i = 0; i < n; i++) {
+    den += (values[i] - mean) ** 2;
+    if (i + lag < n) num += (values[i] - mean) * (values[i + lag] - mean);
+  }
+  const r = den > 0 && n > lag ? num / den : 0;
+  const statistic = r * Math.sqrt(n);
+  return { name, statistic, pValue: twoSided(statistic), n, lag, r };
+};
+
+// Serial test on non-overlapping tuples: every combination of `length` symbols
+// should be equally frequent
+export const serialTest = (name: string, symbols: readonly number[], alphabet: number, length: number): TestResult => {
+  const cells = alphabet ** length;
+  const counts = Array<number>(cells).fill(0);
+  const tuples = Math.floor(symbols.length / length);
+  for (let t = 0; t < tuples; t++) {
+    let code = 0;
+    for (let j = 0; j < length; j++) code = code * alphabet + symbols[t * length + j];
+    counts[code]++;
+  }
+  const statistic = chiSquareUniform(counts);
+  return { name, statistic, df: cells - 1, pValue: chiSquarePValue(statistic, cells - 1), n: tuples };
+};
+
+// Shannon entropy of the symbol frequencies, in bits
+export const shannonEntropy = (symbols: readonly number[], alphabet: number): EntropyResult => {
+  const counts = new Map<number, number>();
+  for (const s of symbols) counts.set(s, (counts.get(s) ?? 0) + 1);
+  let bits = 0;
+  for (const c of counts.values()) {
+    const p = c / symbols.length;
+    bits -= p * Math.log2(p);
+  }
+  const maxBits = Math.log2(alphabet);
+  return { bits, maxBits, ratio: maxBits > 0 ? bits / maxBits : 0 };
+};
+
+// Runs every diagnostic over stored results, oldest first
+export const runRandomnessSuite = (
+  results: readonly GameResultRow[],
+  { lags = DEFAULT_LAGS, alpha = DEFAULT_ALPHA }: RandomnessOptions = {},
+): RandomnessReport => {
+  const outcomes = [...results]
+    .sort((a, b) => a.issue_number.localeCompare(b.issue_number))
+    .map(outcomeOf);
+  const digits = outcomes.map((o) => o.number);
+  const red = outcomes.map((o) => o.color === "RED");
+  const big = outcomes.map((o) => o.size === "BIG");
+  const bits = (seq: boolean[]) => seq.map((b) => (b ? 1 : 0));
+
+  const frequency = digitFrequencyTest(digits);
+  const tests: TestResult[] = [
+    frequency,
+    runsTest("color runs", red),
+    runsTest("size runs", big),
+    ...lags.map((lag) => autocorrelationTest(`number autocorrelation (lag ${lag})`, digits, lag)),
+    serialTest("digit pairs", digits, 10, 2),
+    serialTest("color pairs", bits(red), 2, 2),
+    serialTest("color triples", bits(red), 2, 3),
+    serialTest("size pairs", bits(big), 2, 2),
+    serialTest("size triples", bits(big), 2, 3),
+  ];
+
+  const threshold = alpha / tests.length;
+  return {
+    periods: outcomes.length,
+    digitCounts: frequency.counts,
+    entropy: shannonEntropy(digits, 10),
+    tests,
+    alpha,
+    threshold,
+    failures: tests.filter((t) => t.pValue < threshold).map((t) => t.name),
+  };
+};
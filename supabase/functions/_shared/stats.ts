@@ -0,0 +1,144 @@
+// Small statistics toolkit for judging hit rates against chance.
+
+export interface Interval {
+  level: number;
+  lower: number;
+  upper: number;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Inverse standard normal CDF (Acklam's rational approximation)
+export const normalQuantile = (p: number): number => {
+  if (p <= 0 || p >= 1) throw new RangeError("normalQuantile expects 0 < p < 1");
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const lo = 0.02425;
+  if (p < lo) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - lo) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Wilson score interval for a binomial proportion
+export const wilsonInterval = (hits: number, n: number, level = 0.95): Interval => {
+  if (n === 0) return { level, lower: 0, upper: 1 };
+  const z = normalQuantile(1 - (1 - level) / 2);
+  const p = hits / n;
+  const z2 = z * z;
+  const centre = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (z / (1 + z2 / n)) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+  return { level, lower: Math.max(0, centre - half), upper: Math.min(1, centre + half) };
+};
+
+const logFactorials: number[] = [0];
+const logFactorial = (n: number): number => {
+  for (let i = logFactorials.length; i <= n; i++) logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  return logFactorials[n];
+};
+
+const binomialLogPmf = (k: number, n: number, p: number): number =>
+  logFactorial(n) - logFactorial(k) - logFactorial(n - k) + k * Math.log(p) + (n - k) * Math.log(1 - p);
+
+// Exact two-sided binomial test: P(outcome at least as unlikely as `hits` | rate p)
+export const binomialTestPValue = (hits: number, n: number, p = 0.5): number => {
+  if (n === 0) return 1;
+  const observed = binomialLogPmf(hits, n, p);
+  let total = 0;
+  for (let k = 0; k <= n; k++) {
+    const lp = binomialLogPmf(k, n, p);
+    // Relative tolerance guards against float noise on the symmetric tail
+    if (lp <= observed + 1e-7) total += Math.exp(lp);
+  }
+  return Math.min(1, total);
+};
+
+// ln Γ(x) for x > 0 (Lanczos approximation, g = 7)
+const LANCZOS = [
+  0.9999999999998099, 676.5203681218851, -1259.1392167224028, 771.3234287776531,
+  -176.6150391699918, 12.507343278686905, -0.13857109526572012, 9.984369578019572e-6, 1.5056327351493116e-7,
+];
+export const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = LANCZOS[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += LANCZOS[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+// Regularized upper incomplete gamma Q(a, x): series below a + 1, continued fraction above
+const upperGammaQ = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const lead = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let sum = 1 / a, term = sum;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - sum * Math.exp(lead);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a, c = 1 / tiny, d = 1 / b, h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.exp(lead) * h;
+};
+
+// Upper-tail p-value of a chi-square statistic
+export const chiSquarePValue = (statistic: number, df: number): number =>
+  df <= 0 ? 1 : Math.min(1, Math.max(0, upperGammaQ(df / 2, statistic / 2)));
+
+// Pearson goodness-of-fit statistic of observed counts against equal expected counts
+export const chiSquareUniform = (counts: readonly number[]): number => {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total === 0) return 0;
+  const expected = total / counts.length;
+  return counts.reduce((acc, c) => acc + (c - expected) ** 2 / expected, 0);
+};
+
+// Longest runs of true / false values in a sequence
+export const longestRuns = (seq: readonly boolean[]): { wins: number; losses: number } => {
+  let wins = 0, losses = 0, run = 0;
+  for (let i = 0; i < seq.length; i++) {
+    run = i > 0 && seq[i] === seq[i - 1] ? run + 1 : 1;
+    if (seq[i]) wins = Math.max(wins, run);
+    else losses = Math.max(losses, run);
+  }
+  return { wins, losses };
+};
+
+// Expected number of periods until a run of `length` straight hits first appears
+// when each pick independently hits with probability p
+export const expectedPeriodsUntilStreak = (length: number, p: number): number => {
+  if (length <= 0) return 0;
+  if (p <= 0) return Infinity;
+  if (p >= 1) return length;
+  const pk = Math.pow(p, length);
+  return (1 - pk) / ((1 - p) * pk);
+};
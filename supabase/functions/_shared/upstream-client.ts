@@ -0,0 +1,192 @@
+import { validateHistoryPage, WingoApiFormatError, type ValidatedPage } from "./wingo-api.ts";
+
+// Calls to the history feed: a timeout per request, retries with jittered
+// exponential backoff, and a circuit breaker whose state outlives the invocation.
+
+// ─── ERRORS ────────────────────────────────────────────────────────
+// network: no response (including timeouts); http: non-2xx status; api_code: the
+// envelope reports code !== 0; schema: not JSON or not a history page;
+// circuit_open: not attempted because the breaker is open
+export type UpstreamErrorKind = "network" | "http" | "api_code" | "schema" | "circuit_open";
+
+export class UpstreamError extends Error {
+  // Requests made before giving up (0 when the breaker refused the call)
+  attempts = 0;
+
+  constructor(message: string, readonly kind: UpstreamErrorKind, readonly status: number | null = null) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+
+  // Worth another attempt: the upstream did not answer, or said it is overloaded
+  get retryable(): boolean {
+    if (this.kind === "network") return true;
+    return this.kind === "http" && this.status !== null && (this.status >= 500 || this.status === 408 || this.status === 429);
+  }
+}
+
+// ─── RETRIES ───────────────────────────────────────────────────────
+// Budget per page: at worst three 8s attempts plus up to 1.5s of backoff. A
+// backfill walk spends this once per page, so it outlasts the ingest lock's TTL;
+// the lease is renewed while the run goes on (withIngestLock).
+export const UPSTREAM_TIMEOUT_MS = 8_000;
+export const UPSTREAM_RETRIES = 2;
+export const BACKOFF_BASE_MS = 500;
+export const BACKOFF_MAX_MS = 4_000;
+
+export interface UpstreamOptions {
+  timeoutMs?: number;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  fetchImpl?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export interface UpstreamPage extends ValidatedPage {
+  status: number;
+  attempts: number;
+}
+
+// "Full jitter": anywhere between 0 and the exponential step, capped
+export const backoffDelay = (retry: number, baseMs = BACKOFF_BASE_MS, maxMs = BACKOFF_MAX_MS, random = Math.random) =>
+  Math.round(random() * Math.min(maxMs, baseMs * 2 ** retry));
+
+const fetchOnce = async (url: string, timeoutMs: number, fetchImpl: typeof fetch) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const noResponse = (err: unknown) =>
+    new UpstreamError(
+      controller.signal.aborted ? `Timed out after ${timeoutMs}ms` : `Network error: ${err instanceof Error ? err.message : String(err)}`,
+      "network",
+    );
+
+  try {
+    let res: Response;
+    try {
+      res = await fetchImpl(url, { signal: controller.signal });
+    } catch (err) {
+      throw noResponse(err);
+    }
+    if (!res.ok) throw new UpstreamError(`HTTP ${res.status}`, "http", res.status);
+
+    let json: unknown;
+    try {
+      json = await res.json();
+    } catch (err) {
+      if (controller.signal.aborted) throw noResponse(err);
+      throw new UpstreamError("Response is not JSON", "schema", res.status);
+    }
+
+    try {
+      return { status: res.status, page: validateHistoryPage(json) };
+    } catch (err) {
+      if (!(err instanceof WingoApiFormatError)) throw err;
+      throw new UpstreamError(err.message, err.reason === "code" ? "api_code" : "schema", res.status);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Fetches and validates one history page, retrying what is retryable
+export const fetchUpstreamPage = async (
+  url: string,
+  {
+    timeoutMs = UPSTREAM_TIMEOUT_MS,
+    retries = UPSTREAM_RETRIES,
+    baseDelayMs = BACKOFF_BASE_MS,
+    maxDelayMs = BACKOFF_MAX_MS,
+    fetchImpl = fetch,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    random = Math.random,
+  }: UpstreamOptions = {},
+): Promise<UpstreamPage> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const { status, page } = await fetchOnce(url, timeoutMs, fetchImpl);
+      return { ...page, status, attempts: attempt };
+    } catch (err) {
+      if (!(err instanceof UpstreamError)) throw err;
+      err.attempts = attempt;
+      if (!err.retryable || attempt > retries) throw err;
+      await sleep(backoffDelay(attempt - 1, baseDelayMs, maxDelayMs, random));
+    }
+  }
+};
+
+// ─── CIRCUIT BREAKER ───────────────────────────────────────────────
+// Opens after BREAKER_FAILURE_THRESHOLD failed calls in a row. While open, calls
+// fail fast; once BREAKER_COOLDOWN_MS has passed the next call is a trial
+// (half-open) that closes the breaker on success and re-opens it on failure.
+// Callers hold the game's ingest lock, so trials for a game never overlap.
+export const BREAKER_FAILURE_THRESHOLD = 3;
+export const BREAKER_COOLDOWN_MS = 60_000;
+
+export interface BreakerState {
+  state: "closed" | "open";
+  failures: number;
+  opened_at: string | null;
+  last_error: string | null;
+}
+
+export type BreakerStatus = "closed" | "open" | "half_open";
+
+export const CLOSED_BREAKER: BreakerState = { state: "closed", failures: 0, opened_at: null, last_error: null };
+
+export interface BreakerStore {
+  load(): Promise<BreakerState>;
+  save(state: BreakerState): Promise<void>;
+}
+
+export interface BreakerOptions {
+  now?: () => number;
+  threshold?: number;
+  cooldownMs?: number;
+}
+
+export const breakerStatus = (breaker: BreakerState, now: number, cooldownMs = BREAKER_COOLDOWN_MS): BreakerStatus => {
+  if (breaker.state === "closed") return "closed";
+  return now - Date.parse(breaker.opened_at ?? "") >= cooldownMs ? "half_open" : "open";
+};
+
+export const recordFailure = (
+  breaker: BreakerState,
+  error: string,
+  now: number,
+  threshold = BREAKER_FAILURE_THRESHOLD,
+): BreakerState => {
+  const failures = breaker.failures + 1;
+  // A failed trial re-opens the breaker for another cooldown
+  const open = breaker.state === "open" || failures >= threshold;
+  return {
+    state: open ? "open" : "closed",
+    failures,
+    opened_at: open ? new Date(now).toISOString() : null,
+    last_error: error,
+  };
+};
+
+export const withCircuitBreaker = async <T>(
+  store: BreakerStore,
+  call: () => Promise<T>,
+  { now = Date.now, threshold, cooldownMs }: BreakerOptions = {},
+): Promise<T> => {
+  const breaker = await store.load();
+  if (breakerStatus(breaker, now(), cooldownMs) === "open") {
+    throw new UpstreamError(
+      `Circuit open since ${breaker.opened_at} after ${breaker.failures} failures (last: ${breaker.last_error})`,
+      "circuit_open",
+    );
+  }
+
+  try {
+    const value = await call();
+    if (breaker.failures > 0) await store.save(CLOSED_BREAKER);
+    return value;
+  } catch (err) {
+    if (err instanceof UpstreamError) await store.save(recordFailure(breaker, err.message, now(), threshold));
+    throw err;
+  }
+};
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { DEFAULT_GAME, type GameId } from "./games.ts";
+import { parseColor, type GameResultRow } from "./outcome.ts";
+
+export const DEFAULT_API_BASE_URL = "https://draw.ar-lottery01.com";
+
+// Latest history page of a game's feed. The base can point at a stand-in such as
+// scripts/mock-upstream.ts (WINGO_API_BASE_URL in the edge function).
+export const historyApiUrl = (game: GameId, baseUrl = DEFAULT_API_BASE_URL): string =>
+  `${baseUrl.replace(/\/+$/, "")}/WinGo/${game}/GetHistoryIssuePage.json`;
+
+export const DEFAULT_API_URL = historyApiUrl(DEFAULT_GAME);
+
+// ─── SCHEMA ────────────────────────────────────────────────────────
+const digits = z.union([z.string(), z.number()]).transform(String).pipe(z.string().regex(/^\d+$/));
+
+// One item of GetHistoryIssuePage.json data.list
+export const wingoApiItemSchema = z.object({
+  issueNumber: z.string().regex(/^\d{10,}$/, "issueNumber must be a numeric period id"),
+  number: digits.pipe(z.string().regex(/^\d$/, "number must be a single digit")).transform(Number),
+  color: z.string().transform((raw, ctx) => {
+    const parsed = parseColor(raw);
+    if (!parsed) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown color "${raw}"` });
+      return z.NEVER;
+    }
+    return parsed;
+  }),
+  premium: digits.optional(),
+  sum: z.coerce.number().int().nonnegative().optional().default(0),
+});
+
+// Items are validated one by one so a single bad item does not drop the page
+export const wingoApiResponseSchema = z.object({
+  code: z.number(),
+  msg: z.string().optional(),
+  data: z.object({
+    list: z.array(z.unknown()),
+    pageNo: z.number().optional(),
+    totalPage: z.number().optional(),
+    totalCount: z.number().optional(),
+  }),
+});
+
+export type WingoApiItem = z.output<typeof wingoApiItemSchema>;
+
+export interface ValidatedPage {
+  items: WingoApiItem[];
+  rejected: number;
+  // How many items failed on each field ("item" when the entry is not an object)
+  rejectedByField: Record<string, number>;
+  // Issue numbers the page repeats, and those listed after an older one (the feed
+  // is newest first). Both are kept in items; the upsert stores each issue once.
+  duplicates: string[];
+  outOfOrder: string[];
+}
+
+export class WingoApiFormatError extends Error {
+  // "code" when the envelope is well formed but reports a failure
+  constructor(message: string, readonly payload: unknown, readonly reason: "shape" | "code" = "shape") {
+    super(message);
+    this.name = "WingoApiFormatError";
+  }
+}
+
+export const validateHistoryPage = (json: unknown): ValidatedPage => {
+  const envelope = wingoApiResponseSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new WingoApiFormatError(`Unexpected response shape: ${envelope.error.issues[0]?.message}`, json);
+  }
+  if (envelope.data.code !== 0) {
+    throw new WingoApiFormatError(`API returned code ${envelope.data.code}`, json, "code");
+  }
+
+  const items: WingoApiItem[] = [];
+  const rejectedByField: Record<string, number> = {};
+  for (const raw of envelope.data.data.list) {
+    const parsed = wingoApiItemSchema.safeParse(raw);
+    if (parsed.success) {
+      items.push(parsed.data);
+      continue;
+    }
+    const fields = new Set(parsed.error.issues.map((i) => String(i.path[0] ?? "item")));
+    fields.forEach((f) => (rejectedByField[f] = (rejectedByField[f] ?? 0) + 1));
+  }
+
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  const outOfOrder: string[] = [];
+  items.forEach(({ issueNumber }, i) => {
+    if (seen.has(issueNumber)) duplicates.push(issueNumber);
+    else if (i > 0 && issueNumber > items[i - 1].issueNumber) outOfOrder.push(issueNumber);
+    seen.add(issueNumber);
+  });
+
+  return { items, rejected: envelope.data.data.list.length - items.length, rejectedByField, duplicates, outOfOrder };
+};
+
+// ─── FETCHING ──────────────────────────────────────────────────────
+export const historyPageUrl = (apiUrl: string, pageNo: number, pageSize = 10): string => {
+  const url = new URL(apiUrl);
+  url.searchParams.set("pageNo", String(pageNo));
+  url.searchParams.set("pageSize", String(pageSize));
+  return url.toString();
+};
+
+export const toGameResultRow = (item: WingoApiItem): GameResultRow => ({
+  issue_number: item.issueNumber,
+  number: item.number,
+  color: item.color.raw,
+  premium: item.premium ?? null,
+  sum: item.sum,
+});
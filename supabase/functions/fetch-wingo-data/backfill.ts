@@ -0,0 +1,105 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  abandonedGaps,
+  AUTO_BACKFILL_WINDOW,
+  autoBackfillTarget,
+  DEFAULT_MAX_PAGES,
+  gapStarts,
+  runBackfill,
+  type BackfillTarget,
+} from "../_shared/backfill.ts";
+import type { GameId } from "../_shared/domain.ts";
+import type { Lease } from "../_shared/ingest-lock.ts";
+import { UpstreamError } from "../_shared/upstream-client.ts";
+import { finishRun, startRun } from "./ingest-runs.ts";
+import { fetchUpstream } from "./upstream.ts";
+
+export interface BackfillRequest {
+  action: "backfill";
+  targetIssue?: string;
+  targetDate?: string;
+  maxPages?: number;
+}
+
+export const parseBackfillTarget = (body: BackfillRequest): BackfillTarget | null => {
+  if (body.targetIssue && /^\d+$/.test(body.targetIssue)) return { issue: body.targetIssue };
+  if (body.targetDate && /^\d{4}-?\d{2}-?\d{2}$/.test(body.targetDate)) return { date: body.targetDate };
+  return null;
+};
+
+// Walks the upstream history back to the target and upserts what is missing.
+// Rows land in the game's slice of game_results (and through its trigger, the archive).
+export const handleBackfill = async (
+  supabase: SupabaseClient,
+  game: GameId,
+  target: BackfillTarget,
+  lease: Lease,
+  maxPages = DEFAULT_MAX_PAGES,
+) => {
+  const report = await runBackfill(
+    target,
+    {
+      canContinue: lease.held,
+      fetchPage: async (pageNo) => (await fetchUpstream(supabase, game, pageNo)).items,
+      storedIssues: async (from, to) => {
+        const { data, error } = await supabase
+          .from("game_results_archive")
+          .select("issue_number")
+          .eq("game", game)
+          .gte("issue_number", from)
+          .lte("issue_number", to);
+        if (error) throw new Error(`Archive read error: ${error.message}`);
+        return new Set((data || []).map((r: { issue_number: string }) => r.issue_number));
+      },
+      upsert: async (rows) => {
+        const { error } = await supabase
+          .from("game_results")
+          .upsert(
+            rows.map((r) => ({ ...r, game })),
+            { onConflict: "game,issue_number", ignoreDuplicates: true },
+          );
+        if (error) throw new Error(`Backfill upsert error: ${error.message}`);
+      },
+    },
+    maxPages,
+  );
+
+  await supabase.rpc("trim_game_results");
+  return report;
+};
+
+// Runs after an ingest: backfills the gaps get_data_quality finds among the newest
+// results, as its own backfill run. Gaps an earlier walk could not recover are
+// skipped. Null when there was nothing to do.
+export const backfillGaps = async (supabase: SupabaseClient, game: GameId, lease: Lease) => {
+  const [{ data: findings, error }, { data: runs, error: runsErr }] = await Promise.all([
+    supabase.rpc("get_data_quality", { p_game: game, p_limit: AUTO_BACKFILL_WINDOW }),
+    supabase
+      .from("ingest_runs")
+      .select("started_at, abandoned_gaps")
+      .eq("game", game)
+      .eq("action", "backfill")
+      .order("started_at", { ascending: false }),
+  ]);
+  if (error) throw new Error(`Data quality read error: ${error.message}`);
+  if (runsErr) throw new Error(`Ingest runs read error: ${runsErr.message}`);
+
+  const abandoned = new Set((runs ?? []).flatMap((r: { abandoned_gaps: string[] }) => r.abandoned_gaps));
+  const lastRunAt = runs?.[0] ? Date.parse(runs[0].started_at) : null;
+  const target = autoBackfillTarget(findings ?? [], lastRunAt, Date.now(), abandoned);
+  if (!target) return null;
+
+  const run = await startRun(supabase, game, "backfill");
+  try {
+    const report = await handleBackfill(supabase, game, target, lease);
+    run.rows_upserted = report.recovered;
+    // A walk cut short by a lost lease says nothing about the gaps it did not reach
+    if (lease.held()) run.abandoned_gaps = abandonedGaps(gapStarts(findings ?? [], abandoned), report);
+    await finishRun(supabase, run);
+    return report;
+  } catch (err) {
+    if (err instanceof UpstreamError) run.error_kind = err.kind;
+    await finishRun(supabase, run, `Auto backfill error: ${err instanceof Error ? err.message : String(err)}`);
+    throw err;
+  }
+};
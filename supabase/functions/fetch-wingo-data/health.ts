@@ -0,0 +1,42 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { nextIssueNumber, type GameId, type PredictionMode } from "../_shared/domain.ts";
+import { buildHealthReport } from "../_shared/health.ts";
+
+export const getHealth = async (supabase: SupabaseClient, game: GameId) => {
+  const [{ data: lastRun }, { data: latest }] = await Promise.all([
+    supabase
+      .from("ingest_runs")
+      .select("started_at, finished_at")
+      .eq("game", game)
+      .eq("status", "success")
+      .order("finished_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("game_results")
+      .select("issue_number")
+      .eq("game", game)
+      .order("issue_number", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const nextIssue = latest ? nextIssueNumber(latest.issue_number) : null;
+  let nextPredictionModes: PredictionMode[] = [];
+  if (nextIssue) {
+    const { data: preds } = await supabase
+      .from("predictions")
+      .select("mode")
+      .eq("game", game)
+      .eq("issue_number", nextIssue);
+    nextPredictionModes = (preds || []).map((p: { mode: PredictionMode }) => p.mode);
+  }
+
+  return buildHealthReport({
+    now: Date.now(),
+    lastSuccessfulRun: lastRun ?? null,
+    latestResult: latest ?? null,
+    nextIssue,
+    nextPredictionModes,
+  });
+};
@@ -1,4 +1,26 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_MAX_PAGES, parseMaxPages, type BackfillReport } from "../_shared/backfill.ts";
+import {
+  DEFAULT_GAME,
+  GAME_IDS,
+  isGameId,
+  nextIssueNumber,
+  PREDICTION_MODES,
+  type GameId,
+  type GameResultRow,
+  type PredictionMode,
+} from "../_shared/domain.ts";
+import { failureThresholds } from "../_shared/formula-sets.ts";
+import { withIngestLock } from "../_shared/ingest-lock.ts";
+import { parseEngineConfig, resolveEngine, type PredictionEngine } from "../_shared/prediction-engines.ts";
+import { buildPredictions, type PredictionChange } from "../_shared/predictions.ts";
+import { UpstreamError, type UpstreamPage } from "../_shared/upstream-client.ts";
+import { toGameResultRow } from "../_shared/wingo-api.ts";
+import { backfillGaps, handleBackfill, parseBackfillTarget, type BackfillRequest } from "./backfill.ts";
+import { getHealth } from "./health.ts";
+import { ingestLock } from "./ingest-lock.ts";
+import { finishRun, startRun, type IngestRun } from "./ingest-runs.ts";
+import { fetchUpstream } from "./upstream.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,8 +28,18 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const API_URL =
-  "https://draw.ar-lottery01.com/WinGo/WinGo_30S/GetHistoryIssuePage.json";
+const jsonResponse = (payload: unknown, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// 503 while the breaker holds calls back, 502 when the upstream failed
+const upstreamErrorResponse = (err: UpstreamError, game: GameId) =>
+  jsonResponse(
+    { error: "Upstream error", game, kind: err.kind, status: err.status, attempts: err.attempts, detail: err.message },
+    err.kind === "circuit_open" ? 503 : 502,
+  );
 
 // ─── MAIN HANDLER ──────────────────────────────────────────────────
 Deno.serve(async (req) => {
@@ -15,189 +47,201 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Kept outside the try so a failed run can still be recorded
+  let client: SupabaseClient | null = null;
+  let run: IngestRun | null = null;
+
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, serviceKey);
-
-    // 1. Fetch from public API
-    const apiRes = await fetch(API_URL);
-    const apiJson = await apiRes.json();
-
-    if (apiJson.code !== 0 || !apiJson.data?.list) {
-      console.error("API returned unexpected format:", apiJson);
-      return new Response(JSON.stringify({ error: "API error" }), {
-        status: 502,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    client = supabase;
+
+    // Health check: GET .../fetch-wingo-data/health?game=WinGo_1M is public and read-only
+    const url = new URL(req.url);
+    if (req.method === "GET" && url.pathname.endsWith("/health")) {
+      const game = url.searchParams.get("game") ?? DEFAULT_GAME;
+      if (!isGameId(game)) {
+        return jsonResponse({ error: `Unknown game "${game}"`, games: GAME_IDS }, 400);
+      }
+      const health = await getHealth(supabase, game);
+      return jsonResponse({ game, ...health }, health.healthy ? 200 : 503);
     }
 
-    const apiList = apiJson.data.list;
-
-    // 2. Upsert into game_results
-    const rows = apiList.map((item: any) => ({
-      issue_number: item.issueNumber,
-      number: parseInt(item.number, 10),
-      color: item.color,
-      premium: item.premium,
-      sum: item.sum || 0,
-    }));
-
-    const { error: upsertErr } = await supabase
-      .from("game_results")
-      .upsert(rows, { onConflict: "issue_number", ignoreDuplicates: true });
-
-    if (upsertErr) console.error("Upsert error:", upsertErr);
-
-    // 3. Trim game_results to 10
-    await supabase.rpc("trim_game_results");
-
-    // 4. Get stored results
-    const { data: allResults, error: fetchErr } = await supabase
-      .from("game_results")
-      .select("*")
-      .order("issue_number", { ascending: true });
-
-    if (fetchErr || !allResults) {
-      console.error("Fetch results error:", fetchErr);
-      return new Response(JSON.stringify({ error: "DB read error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    // Ingestion is scheduled by pg_cron with the service role key; browsers only read
+    if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
     }
 
-    // 5. Get existing predictions
-    const { data: existingPreds } = await supabase
-      .from("predictions")
-      .select("issue_number, mode, prediction, correct");
-
-    const predMap = new Map<string, { prediction: string; correct: boolean | null }>();
-    (existingPreds || []).forEach((p: any) => {
-      predMap.set(`${p.issue_number}|${p.mode}`, { prediction: p.prediction, correct: p.correct });
-    });
+    // Every run targets one game: POST { game?: "WinGo_30S" | "WinGo_1M" | "WinGo_3M" | "WinGo_5M", ... }
+    const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+    const game = body.game ?? DEFAULT_GAME;
+    if (!isGameId(game)) {
+      return jsonResponse({ error: `Unknown game "${game}"`, games: GAME_IDS }, 400);
+    }
 
-    // 6. Update correct field for existing predictions
-    const correctUpdates: any[] = [];
-    for (const result of allResults) {
-      const n = result.number;
-      const col = result.color.toLowerCase().includes("red") ? "RED" : "GREEN";
-      const sz = n <= 4 ? "SMALL" : "BIG";
-
-      for (const m of ["color", "size"]) {
-        const key = `${result.issue_number}|${m}`;
-        const existing = predMap.get(key);
-        if (existing && existing.correct === null) {
-          const actual = m === "color" ? col : sz;
-          const isCorrect = existing.prediction === actual;
-          correctUpdates.push({ issue_number: result.issue_number, mode: m, correct: isCorrect });
-          predMap.set(key, { ...existing, correct: isCorrect });
+    // Concurrent invocations for the same game coalesce into the run holding the lease,
+    // which is renewed for as long as the run lasts
+    const locked = await withIngestLock(ingestLock(supabase, game), async (lease) => {
+      // Backfill mode: POST { action: "backfill", targetIssue | targetDate, maxPages? }
+      if (body.action === "backfill") {
+        const target = parseBackfillTarget(body as BackfillRequest);
+        if (!target) {
+          return jsonResponse({ error: "backfill needs targetIssue or targetDate" }, 400);
+        }
+        const maxPages = parseMaxPages(body.maxPages);
+        if (maxPages === null) {
+          return jsonResponse({ error: `maxPages must be a positive integer (at most ${DEFAULT_MAX_PAGES})` }, 400);
         }
+        run = await startRun(supabase, game, "backfill");
+        let report: BackfillReport;
+        try {
+          report = await handleBackfill(supabase, game, target, lease, maxPages);
+        } catch (err) {
+          if (!(err instanceof UpstreamError)) throw err;
+          run.error_kind = err.kind;
+          await finishRun(supabase, run, `Upstream error: ${err.message}`);
+          return upstreamErrorResponse(err, game);
+        }
+        run.rows_upserted = report.recovered;
+        await finishRun(supabase, run);
+        console.log(
+          `Backfill ${game} | Pages=${report.pagesFetched} | Missing=${report.missing} | Recovered=${report.recovered} | Unrecoverable=${report.unrecoverable.length}`
+        );
+        return jsonResponse({ success: true, game, backfill: report });
       }
-    }
 
-    for (const upd of correctUpdates) {
-      await supabase
-        .from("predictions")
-        .update({ correct: upd.correct })
-        .eq("issue_number", upd.issue_number)
-        .eq("mode", upd.mode);
-    }
+      run = await startRun(supabase, game, "ingest");
+
+      // 1. Fetch from public API (timeouts, retries and the game's circuit breaker)
+      let page: UpstreamPage;
+      try {
+        page = await fetchUpstream(supabase, game);
+      } catch (err) {
+        if (!(err instanceof UpstreamError)) throw err;
+        console.error(`Upstream ${err.kind} error | Game=${game} | Attempts=${err.attempts}:`, err.message);
+        run.upstream_status = err.status;
+        run.upstream_attempts = err.attempts;
+        run.error_kind = err.kind;
+        await finishRun(supabase, run, `Upstream error: ${err.message}`);
+        return upstreamErrorResponse(err, game);
+      }
 
-    // 7. Compute next period
-    const latestIssue = allResults[allResults.length - 1].issue_number;
-    let nextIssue: string;
-    try {
-      nextIssue = (BigInt(latestIssue) + 1n).toString();
-    } catch {
-      nextIssue = latestIssue + "?";
-    }
+      run.upstream_status = page.status;
+      run.upstream_attempts = page.attempts;
+      run.rows_rejected = page.rejected;
+      run.rejected_fields = page.rejectedByField;
+      if (page.rejected > 0) console.warn("Rejected malformed items:", page.rejectedByField);
+      run.duplicate_issues = page.duplicates;
+      run.out_of_order_issues = page.outOfOrder;
+      if (page.duplicates.length > 0) console.warn("Upstream repeated issues:", page.duplicates);
+      if (page.outOfOrder.length > 0) console.warn("Upstream listed issues out of order:", page.outOfOrder);
+
+      // 2. Upsert into game_results
+      const rows = page.items.map((item) => ({ ...toGameResultRow(item), game }));
+
+      const { error: upsertErr, count: upserted } = await supabase
+        .from("game_results")
+        .upsert(rows, { onConflict: "game,issue_number", ignoreDuplicates: true, count: "exact" });
+
+      if (upsertErr) console.error("Upsert error:", upsertErr);
+      run.rows_upserted = upserted ?? 0;
+
+      // 3. Get stored results (the engines' history)
+      const { data: allResults, error: fetchErr } = await supabase
+        .from("game_results")
+        .select("*")
+        .eq("game", game)
+        .order("issue_number", { ascending: true });
+
+      if (fetchErr || !allResults || allResults.length === 0) {
+        console.error("Fetch results error:", fetchErr);
+        await finishRun(supabase, run, `DB read error: ${fetchErr?.message ?? "no results"}`);
+        return jsonResponse({ error: "DB read error" }, 500);
+      }
 
-    // 8. MATH.RANDOM 50/50 PREDICTION ENGINE
-    const newPredictions: any[] = [];
-
-    for (const m of ["color", "size"] as const) {
-      const key = `${nextIssue}|${m}`;
-      if (predMap.has(key)) continue;
-
-      // Pure 50/50 random prediction
-      const pred = m === "color"
-        ? (Math.random() < 0.5 ? "RED" : "GREEN")
-        : (Math.random() < 0.5 ? "BIG" : "SMALL");
-
-      newPredictions.push({
-        issue_number: nextIssue,
-        mode: m,
-        prediction: pred,
-        correct: null,
-        formula_applied: {
-          id: "random_5050",
-          type: "math_random",
-          condition: "Math.random() < 0.5",
-          prediction: pred,
-          confidence: 0.5,
-          support: 1,
-          description: `50/50 random → ${pred}`,
-        },
+      // 4. Compute next period (the next date's first period after the last one of a day)
+      const latestIssue = allResults[allResults.length - 1].issue_number;
+      const nextIssue = nextIssueNumber(latestIssue);
+      if (!nextIssue) console.warn(`Game=${game} | latest issue ${latestIssue} is not a period of this calendar; not predicting`);
+
+      // 5. PREDICTION ENGINES (selected per mode via PREDICTION_ENGINES)
+      const engineConfig = parseEngineConfig(Deno.env.get("PREDICTION_ENGINES"));
+      const engines = Object.fromEntries(
+        PREDICTION_MODES.map((m) => [m, resolveEngine(m, engineConfig)]),
+      ) as Record<PredictionMode, PredictionEngine>;
+
+      // 6. Settle, insert the new picks and trim in one transaction (settle_and_predict)
+      const { data: changes, error: settleErr } = await supabase.rpc("settle_and_predict", {
+        p_game: game,
+        p_latest_issue: latestIssue,
+        p_predictions: nextIssue ? buildPredictions(allResults as GameResultRow[], nextIssue, engines) : [],
+        p_failure_thresholds: failureThresholds(Deno.env.get("FORMULA_SET_RETIREMENT_HORIZON")),
       });
-    }
 
-    // 9. Backfill predictions for historical periods without one
-    for (const result of allResults) {
-      const n = result.number;
-      const col = result.color.toLowerCase().includes("red") ? "RED" : "GREEN";
-      const sz = n <= 4 ? "SMALL" : "BIG";
-
-      for (const m of ["color", "size"]) {
-        const key = `${result.issue_number}|${m}`;
-        if (!predMap.has(key)) {
-          const pred = m === "color"
-            ? (Math.random() < 0.5 ? "RED" : "GREEN")
-            : (Math.random() < 0.5 ? "BIG" : "SMALL");
-          const actual = m === "color" ? col : sz;
-          newPredictions.push({
-            issue_number: result.issue_number,
-            mode: m,
-            prediction: pred,
-            correct: pred === actual,
-          });
-          predMap.set(key, { prediction: pred, correct: pred === actual });
-        }
+      if (settleErr) {
+        console.error("Settle error:", settleErr);
+        await finishRun(supabase, run, `Settle error: ${settleErr.message}`);
+        return jsonResponse({ error: "Settle error" }, 500);
       }
-    }
 
-    // 10. Insert all new predictions
-    if (newPredictions.length > 0) {
-      const { error: predErr } = await supabase
-        .from("predictions")
-        .upsert(newPredictions, {
-          onConflict: "issue_number,mode",
-          ignoreDuplicates: true,
-        });
-      if (predErr) console.error("Prediction insert error:", predErr);
-    }
+      const predicted = (changes as PredictionChange[]).filter((c) => c.change === "predicted");
+      const settled = (changes as PredictionChange[]).filter((c) => c.change === "settled");
+
+      run.predictions_created = predicted.length;
+      run.predictions_settled = settled.length;
+      await finishRun(supabase, run);
+
+      // 7. Backfill holes in the recent history (recorded as a run of its own)
+      let autoBackfill: BackfillReport | null = null;
+      try {
+        autoBackfill = await backfillGaps(supabase, game, lease);
+        if (autoBackfill) {
+          console.log(
+            `Auto backfill ${game} | From=${autoBackfill.from} | Missing=${autoBackfill.missing} | Recovered=${autoBackfill.recovered}`
+          );
+        }
+      } catch (err) {
+        console.error("Auto backfill error:", err);
+      }
 
-    // 11. Trim predictions to 10 per mode
-    await supabase.rpc("trim_predictions");
+      const engineIds = Object.fromEntries(PREDICTION_MODES.map((m) => [m, engines[m].id]));
+      // Versions of the sets the next period's picks were linked to (null when already predicted)
+      const formulaSetVersions = Object.fromEntries(
+        PREDICTION_MODES.map((m) => [
+          m,
+          predicted.find((c) => c.mode === m && c.issue_number === nextIssue)?.formula_set_version ?? null,
+        ]),
+      );
 
-    console.log(
-      `Engine=random_5050 | Records=${allResults.length} | NewPreds=${newPredictions.length} | CorrectUpdates=${correctUpdates.length}`
-    );
+      console.log(
+        `Game=${game} | Engine=${PREDICTION_MODES.map((m) => `${m}:${engineIds[m]}`).join(",")} | Records=${allResults.length} | NewPreds=${predicted.length} | CorrectUpdates=${settled.length}`
+      );
 
-    return new Response(
-      JSON.stringify({
+      return jsonResponse({
         success: true,
-        engine: "random_5050",
+        runId: run.id,
+        game,
+        engines: engineIds,
+        formulaSets: formulaSetVersions,
         records: allResults.length,
-        newPredictions: newPredictions.length,
-        correctUpdates: correctUpdates.length,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+        newPredictions: predicted.length,
+        correctUpdates: settled.length,
+        upstreamAttempts: page.attempts,
+        rejected: page.rejected,
+        rejectedByField: page.rejectedByField,
+        autoBackfill,
+      });
+    });
+
+    if (!locked.ran) {
+      console.log(`Coalesced | Game=${game} | another run holds the ingest lock`);
+      return jsonResponse({ success: true, game, coalesced: true });
+    }
+    return locked.value;
   } catch (err) {
     console.error("Edge function error:", err);
-    return new Response(JSON.stringify({ error: String(err) }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    if (client && run) await finishRun(client, run, String(err));
+    return jsonResponse({ error: String(err) }, 500);
   }
 });
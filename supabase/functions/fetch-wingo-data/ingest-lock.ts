@@ -0,0 +1,31 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { GameId } from "../_shared/domain.ts";
+import { INGEST_LOCK_TTL_SECONDS, type IngestLock } from "../_shared/ingest-lock.ts";
+
+// Lease row in ingest_locks, taken under a transaction-scoped advisory lock
+export const ingestLock = (
+  supabase: SupabaseClient,
+  game: GameId,
+  holder: string = crypto.randomUUID(),
+  ttlSeconds = INGEST_LOCK_TTL_SECONDS,
+): IngestLock => {
+  // acquire_ingest_lock also extends a lease the holder already has
+  const acquire = async () => {
+    const { data, error } = await supabase.rpc("acquire_ingest_lock", {
+      p_game: game,
+      p_holder: holder,
+      p_ttl_seconds: ttlSeconds,
+    });
+    if (error) throw new Error(`Ingest lock error: ${error.message}`);
+    return data === true;
+  };
+  return {
+    acquire,
+    renew: acquire,
+    release: async () => {
+      const { error } = await supabase.rpc("release_ingest_lock", { p_game: game, p_holder: holder });
+      // The lease expires on its own, so a failed release only delays the next run
+      if (error) console.error("Ingest lock release error:", error);
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { GameId } from "../_shared/domain.ts";
+import type { UpstreamErrorKind } from "../_shared/upstream-client.ts";
+
+export interface IngestRun {
+  id: string | null;
+  game: GameId;
+  action: "ingest" | "backfill";
+  upstream_status: number | null;
+  // Requests the latest upstream call took, retries included
+  upstream_attempts: number;
+  // Set when the run failed on the upstream
+  error_kind: UpstreamErrorKind | null;
+  rows_upserted: number;
+  predictions_created: number;
+  predictions_settled: number;
+  rows_rejected: number;
+  rejected_fields: Record<string, number>;
+  // Issues the upstream page repeated or listed out of order
+  duplicate_issues: string[];
+  out_of_order_issues: string[];
+  // Backfill runs: gaps the walk could not recover, skipped by later auto backfills
+  abandoned_gaps: string[];
+}
+
+// Logging must never break ingestion, so failures here are only reported
+export const startRun = async (
+  supabase: SupabaseClient,
+  game: GameId,
+  action: IngestRun["action"],
+): Promise<IngestRun> => {
+  const { data, error } = await supabase
+    .from("ingest_runs")
+    .insert({ game, action })
+    .select("id")
+    .single();
+  if (error) console.error("Ingest run insert error:", error);
+  return {
+    id: data?.id ?? null,
+    game,
+    action,
+    upstream_status: null,
+    upstream_attempts: 0,
+    error_kind: null,
+    rows_upserted: 0,
+    predictions_created: 0,
+    predictions_settled: 0,
+    rows_rejected: 0,
+    rejected_fields: {},
+    duplicate_issues: [],
+    out_of_order_issues: [],
+    abandoned_gaps: [],
+  };
+};
+
+export const finishRun = async (supabase: SupabaseClient, run: IngestRun, error?: string) => {
+  if (!run.id) return;
+  const { error: updateErr } = await supabase
+    .from("ingest_runs")
+    .update({
+      status: error ? "error" : "success",
+      finished_at: new Date().toISOString(),
+      upstream_status: run.upstream_status,
+      upstream_attempts: run.upstream_attempts,
+      error_kind: run.error_kind,
+      rows_upserted: run.rows_upserted,
+      predictions_created: run.predictions_created,
+      predictions_settled: run.predictions_settled,
+      rows_rejected: run.rows_rejected,
+      rejected_fields: run.rejected_fields,
+      duplicate_issues: run.duplicate_issues,
+      out_of_order_issues: run.out_of_order_issues,
+      abandoned_gaps: run.abandoned_gaps,
+      error: error ?? null,
+    })
+    .eq("id", run.id);
+  if (updateErr) console.error("Ingest run update error:", updateErr);
+};
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { GameId } from "../_shared/domain.ts";
+import {
+  CLOSED_BREAKER,
+  fetchUpstreamPage,
+  withCircuitBreaker,
+  type BreakerState,
+  type BreakerStore,
+  type UpstreamPage,
+} from "../_shared/upstream-client.ts";
+import { DEFAULT_API_BASE_URL, historyApiUrl, historyPageUrl } from "../_shared/wingo-api.ts";
+
+// History feed of a game. WINGO_API_BASE_URL points the function at a stand-in,
+// e.g. `npm run mock-upstream` on the developer's machine.
+export const upstreamUrl = (game: GameId): string =>
+  historyApiUrl(game, Deno.env.get("WINGO_API_BASE_URL") || DEFAULT_API_BASE_URL);
+
+// Breaker row in upstream_breakers. Like the run log, a failing store must not
+// stop ingestion: reads fall back to a closed breaker and writes are only reported.
+export const upstreamBreaker = (supabase: SupabaseClient, game: GameId): BreakerStore => ({
+  load: async () => {
+    const { data, error } = await supabase
+      .from("upstream_breakers")
+      .select("state, failures, opened_at, last_error")
+      .eq("game", game)
+      .maybeSingle();
+    if (error) console.error("Upstream breaker read error:", error);
+    return (data as BreakerState | null) ?? CLOSED_BREAKER;
+  },
+  save: async (state) => {
+    const { error } = await supabase
+      .from("upstream_breakers")
+      .upsert({ game, ...state, updated_at: new Date().toISOString() }, { onConflict: "game" });
+    if (error) console.error("Upstream breaker write error:", error);
+  },
+});
+
+// One history page of the game, newest first, through the game's breaker
+export const fetchUpstream = (
+  supabase: SupabaseClient,
+  game: GameId,
+  pageNo = 1,
+  pageSize = 10,
+): Promise<UpstreamPage> =>
+  withCircuitBreaker(upstreamBreaker(supabase, game), () =>
+    fetchUpstreamPage(historyPageUrl(upstreamUrl(game), pageNo, pageSize)),
+  );
@@ -0,0 +1,155 @@
+
+-- Formula sets become versioned engine configurations with a lifecycle
+ALTER TABLE public.formula_sets
+  ADD COLUMN IF NOT EXISTS engine_id text NOT NULL DEFAULT 'random_5050',
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamp with time zone;
+
+-- Only one active set per mode
+UPDATE public.formula_sets fs
+SET is_active = false, deactivated_at = now()
+WHERE is_active AND id <> (
+  SELECT id FROM public.formula_sets latest
+  WHERE latest.mode = fs.mode AND latest.is_active
+  ORDER BY created_at DESC
+  LIMIT 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_formula_sets_active_mode
+  ON public.formula_sets (mode) WHERE is_active;
+
+-- Which formula set produced each prediction
+ALTER TABLE public.predictions
+  ADD COLUMN IF NOT EXISTS formula_set_id uuid REFERENCES public.formula_sets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_predictions_formula_set ON public.predictions (formula_set_id);
+
+-- Audit trail of activations / deactivations per mode
+CREATE TABLE public.formula_set_activations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  formula_set_id uuid NOT NULL REFERENCES public.formula_sets(id) ON DELETE CASCADE,
+  mode text NOT NULL,
+  engine_id text NOT NULL,
+  version integer NOT NULL,
+  is_active boolean NOT NULL,
+  reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_formula_set_activations_mode_created
+  ON public.formula_set_activations (mode, created_at DESC);
+
+ALTER TABLE public.formula_set_activations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read formula_set_activations" ON public.formula_set_activations FOR SELECT USING (true);
+
+-- Writes the audit row whenever a set is created active or its is_active flag flips.
+-- Callers can explain the change through the app.formula_set_reason setting.
+CREATE OR REPLACE FUNCTION public.log_formula_set_activation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT coalesce(NEW.is_active, false) THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND coalesce(NEW.is_active, false) = coalesce(OLD.is_active, false) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.formula_set_activations (formula_set_id, mode, engine_id, version, is_active, reason)
+  VALUES (
+    NEW.id, NEW.mode, NEW.engine_id, NEW.version, coalesce(NEW.is_active, false),
+    coalesce(nullif(current_setting('app.formula_set_reason', true), ''), 'manual')
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_formula_sets_activation
+  AFTER INSERT OR UPDATE OF is_active ON public.formula_sets
+  FOR EACH ROW EXECUTE FUNCTION public.log_formula_set_activation();
+
+-- Retires the active set for a mode and activates a new version for the given engine
+CREATE OR REPLACE FUNCTION public.activate_formula_set(
+  p_mode text,
+  p_engine_id text,
+  p_formulas jsonb DEFAULT '[]'::jsonb,
+  p_reason text DEFAULT 'manual'
+)
+RETURNS public.formula_sets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_version integer;
+  v_set public.formula_sets;
+BEGIN
+  PERFORM set_config('app.formula_set_reason', p_reason, true);
+
+  UPDATE public.formula_sets
+  SET is_active = false, deactivated_at = now()
+  WHERE mode = p_mode AND is_active;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version
+  FROM public.formula_sets
+  WHERE mode = p_mode;
+
+  INSERT INTO public.formula_sets (mode, engine_id, version, formulas, is_active)
+  VALUES (p_mode, p_engine_id, v_version, p_formulas, true)
+  RETURNING * INTO v_set;
+
+  RETURN v_set;
+END;
+$$;
+
+-- Updates a set's live counters once a prediction is settled and deactivates it
+-- after p_failure_threshold consecutive misses. Returns whether it is still active.
+CREATE OR REPLACE FUNCTION public.record_formula_set_outcome(
+  p_set_id uuid,
+  p_correct boolean,
+  p_failure_threshold integer DEFAULT 10
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_set public.formula_sets;
+BEGIN
+  UPDATE public.formula_sets
+  SET
+    total_predictions = coalesce(total_predictions, 0) + 1,
+    correct_predictions = coalesce(correct_predictions, 0) + CASE WHEN p_correct THEN 1 ELSE 0 END,
+    consecutive_failures = CASE WHEN p_correct THEN 0 ELSE coalesce(consecutive_failures, 0) + 1 END,
+    accuracy = round(
+      (coalesce(correct_predictions, 0) + CASE WHEN p_correct THEN 1 ELSE 0 END)::numeric
+        / (coalesce(total_predictions, 0) + 1),
+      4
+    )
+  WHERE id = p_set_id
+  RETURNING * INTO v_set;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_set.is_active AND v_set.consecutive_failures >= p_failure_threshold THEN
+    PERFORM set_config(
+      'app.formula_set_reason',
+      format('%s consecutive failures (threshold %s)', v_set.consecutive_failures, p_failure_threshold),
+      true
+    );
+    UPDATE public.formula_sets
+    SET is_active = false, deactivated_at = now()
+    WHERE id = p_set_id;
+    RETURN false;
+  END IF;
+
+  RETURN coalesce(v_set.is_active, false);
+END;
+$$;
@@ -0,0 +1,243 @@
+
+-- Append-only archive of every drawn period. The live game_results / predictions
+-- tables stay a small window for the panel; history for statistics and backtests
+-- lives here.
+CREATE TABLE public.game_results_archive (
+  issue_number TEXT NOT NULL PRIMARY KEY,
+  number INT NOT NULL,
+  color TEXT NOT NULL,
+  premium TEXT,
+  sum INT DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_game_results_archive_created ON public.game_results_archive (created_at);
+
+-- Settled predictions only: a row is archived once its outcome is known
+CREATE TABLE public.predictions_archive (
+  id UUID NOT NULL PRIMARY KEY,
+  issue_number TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  prediction TEXT NOT NULL,
+  correct BOOLEAN NOT NULL,
+  formula_applied JSONB,
+  formula_set_id UUID,
+  created_at TIMESTAMPTZ NOT NULL,
+  settled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (issue_number, mode)
+);
+
+CREATE INDEX idx_predictions_archive_mode_issue ON public.predictions_archive (mode, issue_number DESC);
+CREATE INDEX idx_predictions_archive_created ON public.predictions_archive (created_at);
+
+ALTER TABLE public.game_results_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.predictions_archive ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read game_results_archive" ON public.game_results_archive FOR SELECT USING (true);
+CREATE POLICY "Public can read predictions_archive" ON public.predictions_archive FOR SELECT USING (true);
+
+-- Copy rows into the archive as they are written to the live tables
+CREATE OR REPLACE FUNCTION public.archive_game_result()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO public.game_results_archive (issue_number, number, color, premium, sum, created_at)
+  VALUES (NEW.issue_number, NEW.number, NEW.color, NEW.premium, NEW.sum, NEW.created_at)
+  ON CONFLICT (issue_number) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_game_results_archive
+  AFTER INSERT ON public.game_results
+  FOR EACH ROW EXECUTE FUNCTION public.archive_game_result();
+
+CREATE OR REPLACE FUNCTION public.archive_settled_prediction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.correct IS NULL OR (TG_OP = 'UPDATE' AND OLD.correct IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.predictions_archive
+    (id, issue_number, mode, prediction, correct, formula_applied, formula_set_id, created_at)
+  VALUES
+    (NEW.id, NEW.issue_number, NEW.mode, NEW.prediction, NEW.correct, NEW.formula_applied, NEW.formula_set_id, NEW.created_at)
+  ON CONFLICT (issue_number, mode) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_predictions_archive
+  AFTER INSERT OR UPDATE OF correct ON public.predictions
+  FOR EACH ROW EXECUTE FUNCTION public.archive_settled_prediction();
+
+-- Archives reject updates; deletes are only allowed from trim_archives()
+CREATE OR REPLACE FUNCTION public.prevent_archive_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND current_setting('app.archive_retention', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$;
+
+CREATE TRIGGER trg_game_results_archive_append_only
+  BEFORE UPDATE OR DELETE ON public.game_results_archive
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archive_mutation();
+
+CREATE TRIGGER trg_predictions_archive_append_only
+  BEFORE UPDATE OR DELETE ON public.predictions_archive
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archive_mutation();
+
+-- Seed the archive with whatever the live window still holds
+INSERT INTO public.game_results_archive (issue_number, number, color, premium, sum, created_at)
+SELECT issue_number, number, color, premium, sum, created_at FROM public.game_results
+ON CONFLICT (issue_number) DO NOTHING;
+
+INSERT INTO public.predictions_archive
+  (id, issue_number, mode, prediction, correct, formula_applied, formula_set_id, created_at)
+SELECT id, issue_number, mode, prediction, correct, formula_applied, formula_set_id, created_at
+FROM public.predictions
+WHERE correct IS NOT NULL
+ON CONFLICT (issue_number, mode) DO NOTHING;
+
+-- Retention per table. NULL limits mean "keep everything"; when both are set a
+-- row is removed as soon as either limit is exceeded. For predictions keep_rows
+-- applies per mode.
+CREATE TABLE public.retention_policies (
+  table_name TEXT NOT NULL PRIMARY KEY
+    CHECK (table_name IN ('game_results', 'predictions', 'game_results_archive', 'predictions_archive')),
+  keep_rows INT CHECK (keep_rows > 0),
+  keep_days INT CHECK (keep_days > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.retention_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read retention_policies" ON public.retention_policies FOR SELECT USING (true);
+
+INSERT INTO public.retention_policies (table_name, keep_rows, keep_days) VALUES
+  ('game_results', 10, NULL),
+  ('predictions', 10, NULL),
+  ('game_results_archive', NULL, NULL),
+  ('predictions_archive', NULL, NULL);
+
+-- Live window trims now follow retention_policies
+CREATE OR REPLACE FUNCTION public.trim_game_results()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_policy public.retention_policies;
+BEGIN
+  SELECT * INTO v_policy FROM public.retention_policies WHERE table_name = 'game_results';
+
+  IF v_policy.keep_rows IS NOT NULL THEN
+    DELETE FROM public.game_results
+    WHERE id NOT IN (
+      SELECT id FROM public.game_results
+      ORDER BY issue_number DESC
+      LIMIT v_policy.keep_rows
+    );
+  END IF;
+
+  IF v_policy.keep_days IS NOT NULL THEN
+    DELETE FROM public.game_results
+    WHERE created_at < now() - make_interval(days => v_policy.keep_days);
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.trim_predictions()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_policy public.retention_policies;
+BEGIN
+  SELECT * INTO v_policy FROM public.retention_policies WHERE table_name = 'predictions';
+
+  IF v_policy.keep_rows IS NOT NULL THEN
+    DELETE FROM public.predictions
+    WHERE id NOT IN (
+      SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY mode ORDER BY issue_number DESC) as rn
+        FROM public.predictions
+      ) sub
+      WHERE rn <= v_policy.keep_rows
+    );
+  END IF;
+
+  IF v_policy.keep_days IS NOT NULL THEN
+    DELETE FROM public.predictions
+    WHERE created_at < now() - make_interval(days => v_policy.keep_days);
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.trim_archives()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_results public.retention_policies;
+  v_preds public.retention_policies;
+BEGIN
+  SELECT * INTO v_results FROM public.retention_policies WHERE table_name = 'game_results_archive';
+  SELECT * INTO v_preds FROM public.retention_policies WHERE table_name = 'predictions_archive';
+
+  PERFORM set_config('app.archive_retention', 'on', true);
+
+  IF v_results.keep_rows IS NOT NULL THEN
+    DELETE FROM public.game_results_archive
+    WHERE issue_number NOT IN (
+      SELECT issue_number FROM public.game_results_archive
+      ORDER BY issue_number DESC
+      LIMIT v_results.keep_rows
+    );
+  END IF;
+  IF v_results.keep_days IS NOT NULL THEN
+    DELETE FROM public.game_results_archive
+    WHERE created_at < now() - make_interval(days => v_results.keep_days);
+  END IF;
+
+  IF v_preds.keep_rows IS NOT NULL THEN
+    DELETE FROM public.predictions_archive
+    WHERE id NOT IN (
+      SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY mode ORDER BY issue_number DESC) as rn
+        FROM public.predictions_archive
+      ) sub
+      WHERE rn <= v_preds.keep_rows
+    );
+  END IF;
+  IF v_preds.keep_days IS NOT NULL THEN
+    DELETE FROM public.predictions_archive
+    WHERE created_at < now() - make_interval(days => v_preds.keep_days);
+  END IF;
+
+  PERFORM set_config('app.archive_retention', 'off', true);
+END;
+$function$;
+
+-- Archive retention runs once a day; the live window is trimmed by the ingest run
+SELECT cron.schedule('trim-wingo-archives', '17 3 * * *', 'SELECT public.trim_archives()');
@@ -0,0 +1,50 @@
+
+-- Ingestion runs server-side once per 30s period instead of being triggered by
+-- every open panel. The function URL and the key used to call it come from Vault:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE OR REPLACE FUNCTION public.invoke_fetch_wingo_data(p_body jsonb DEFAULT '{}'::jsonb)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_url text;
+  v_key text;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RAISE EXCEPTION 'Vault secrets project_url and service_role_key must be set to schedule ingestion';
+  END IF;
+
+  RETURN net.http_post(
+    url := v_url || '/functions/v1/fetch-wingo-data',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := p_body,
+    timeout_milliseconds := 10000
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_fetch_wingo_data(jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Periods close on :00 and :30 (GMT+6 is a whole-hour offset, so UTC seconds line up).
+-- cron only has minute resolution, so each job waits into its half of the minute and
+-- the draw has a couple of seconds to appear upstream.
+SELECT cron.schedule(
+  'fetch-wingo-data-30s-a',
+  '* * * * *',
+  $$SELECT pg_sleep(2); SELECT public.invoke_fetch_wingo_data();$$
+);
+
+SELECT cron.schedule(
+  'fetch-wingo-data-30s-b',
+  '* * * * *',
+  $$SELECT pg_sleep(32); SELECT public.invoke_fetch_wingo_data();$$
+);
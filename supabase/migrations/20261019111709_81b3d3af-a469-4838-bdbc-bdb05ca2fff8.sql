@@ -0,0 +1,57 @@
+
+-- One row per edge function run (ingest or backfill)
+CREATE TABLE public.ingest_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  action TEXT NOT NULL DEFAULT 'ingest' CHECK (action IN ('ingest', 'backfill')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'error')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  upstream_status INT,
+  rows_upserted INT NOT NULL DEFAULT 0,
+  predictions_created INT NOT NULL DEFAULT 0,
+  predictions_settled INT NOT NULL DEFAULT 0,
+  error TEXT
+);
+
+CREATE INDEX idx_ingest_runs_started ON public.ingest_runs (started_at DESC);
+CREATE INDEX idx_ingest_runs_success ON public.ingest_runs (finished_at DESC) WHERE status = 'success';
+
+ALTER TABLE public.ingest_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read ingest_runs" ON public.ingest_runs FOR SELECT USING (true);
+
+-- Two runs a minute add up; keep two weeks by default
+ALTER TABLE public.retention_policies DROP CONSTRAINT retention_policies_table_name_check;
+ALTER TABLE public.retention_policies ADD CONSTRAINT retention_policies_table_name_check
+  CHECK (table_name IN ('game_results', 'predictions', 'game_results_archive', 'predictions_archive', 'ingest_runs'));
+
+INSERT INTO public.retention_policies (table_name, keep_rows, keep_days) VALUES ('ingest_runs', NULL, 14);
+
+CREATE OR REPLACE FUNCTION public.trim_ingest_runs()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_policy public.retention_policies;
+BEGIN
+  SELECT * INTO v_policy FROM public.retention_policies WHERE table_name = 'ingest_runs';
+
+  IF v_policy.keep_rows IS NOT NULL THEN
+    DELETE FROM public.ingest_runs
+    WHERE id NOT IN (
+      SELECT id FROM public.ingest_runs
+      ORDER BY started_at DESC
+      LIMIT v_policy.keep_rows
+    );
+  END IF;
+
+  IF v_policy.keep_days IS NOT NULL THEN
+    DELETE FROM public.ingest_runs
+    WHERE started_at < now() - make_interval(days => v_policy.keep_days);
+  END IF;
+END;
+$function$;
+
+SELECT cron.schedule('trim-ingest-runs', '23 3 * * *', 'SELECT public.trim_ingest_runs()');
@@ -0,0 +1,5 @@
+
+-- Upstream items that failed schema validation, counted per field
+ALTER TABLE public.ingest_runs
+  ADD COLUMN IF NOT EXISTS rows_rejected INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rejected_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
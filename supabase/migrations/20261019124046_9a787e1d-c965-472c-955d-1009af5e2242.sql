@@ -0,0 +1,36 @@
+
+-- Third prediction mode: exact number. Color picks may also be VIOLET (0 and 5).
+ALTER TABLE public.predictions DROP CONSTRAINT IF EXISTS predictions_mode_check;
+ALTER TABLE public.predictions ADD CONSTRAINT predictions_mode_check
+  CHECK (mode IN ('color', 'size', 'number'));
+
+ALTER TABLE public.predictions ADD CONSTRAINT predictions_pick_check CHECK (
+  (mode = 'color' AND prediction IN ('RED', 'GREEN', 'VIOLET'))
+  OR (mode = 'size' AND prediction IN ('BIG', 'SMALL'))
+  OR (mode = 'number' AND prediction ~ '^[0-9]$')
+);
+
+ALTER TABLE public.formula_sets ADD CONSTRAINT formula_sets_mode_check
+  CHECK (mode IN ('color', 'size', 'number'));
+
+-- Outcome model on the stored results: size, primary color and violet flag
+ALTER TABLE public.game_results
+  ADD COLUMN size TEXT GENERATED ALWAYS AS (CASE WHEN number <= 4 THEN 'SMALL' ELSE 'BIG' END) STORED,
+  ADD COLUMN primary_color TEXT GENERATED ALWAYS AS (
+    CASE WHEN lower(color) LIKE '%red%' THEN 'RED'
+         WHEN lower(color) LIKE '%green%' THEN 'GREEN'
+         WHEN number % 2 = 0 THEN 'RED'
+         ELSE 'GREEN' END
+  ) STORED,
+  ADD COLUMN violet BOOLEAN GENERATED ALWAYS AS (lower(color) LIKE '%violet%') STORED;
+
+ALTER TABLE public.game_results_archive
+  ADD COLUMN size TEXT GENERATED ALWAYS AS (CASE WHEN number <= 4 THEN 'SMALL' ELSE 'BIG' END) STORED,
+  ADD COLUMN primary_color TEXT GENERATED ALWAYS AS (
+    CASE WHEN lower(color) LIKE '%red%' THEN 'RED'
+         WHEN lower(color) LIKE '%green%' THEN 'GREEN'
+         WHEN number % 2 = 0 THEN 'RED'
+         ELSE 'GREEN' END
+  ) STORED,
+  ADD COLUMN violet BOOLEAN GENERATED ALWAYS AS (lower(color) LIKE '%violet%') STORED;
+
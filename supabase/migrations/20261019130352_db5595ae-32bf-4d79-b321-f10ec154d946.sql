@@ -0,0 +1,319 @@
+
+-- WinGo interval games. Results, predictions and formula sets are keyed by game
+-- plus issue number; existing rows all belong to the 30s game.
+CREATE TABLE public.games (
+  id TEXT NOT NULL PRIMARY KEY,
+  label TEXT NOT NULL,
+  period_seconds INT NOT NULL CHECK (period_seconds > 0),
+  issue_code TEXT NOT NULL UNIQUE
+);
+
+ALTER TABLE public.games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read games" ON public.games FOR SELECT USING (true);
+
+INSERT INTO public.games (id, label, period_seconds, issue_code) VALUES
+  ('WinGo_30S', '30s', 30, '10005'),
+  ('WinGo_1M', '1m', 60, '10001'),
+  ('WinGo_3M', '3m', 180, '10002'),
+  ('WinGo_5M', '5m', 300, '10003');
+
+ALTER TABLE public.game_results
+  ADD COLUMN game TEXT NOT NULL DEFAULT 'WinGo_30S' REFERENCES public.games(id);
+ALTER TABLE public.game_results DROP CONSTRAINT game_results_issue_number_key;
+ALTER TABLE public.game_results ADD CONSTRAINT game_results_game_issue_number_key UNIQUE (game, issue_number);
+
+ALTER TABLE public.predictions
+  ADD COLUMN game TEXT NOT NULL DEFAULT 'WinGo_30S' REFERENCES public.games(id);
+ALTER TABLE public.predictions DROP CONSTRAINT predictions_issue_number_mode_key;
+ALTER TABLE public.predictions ADD CONSTRAINT predictions_game_issue_number_mode_key UNIQUE (game, issue_number, mode);
+
+ALTER TABLE public.game_results_archive
+  ADD COLUMN game TEXT NOT NULL DEFAULT 'WinGo_30S' REFERENCES public.games(id);
+ALTER TABLE public.game_results_archive DROP CONSTRAINT game_results_archive_pkey;
+ALTER TABLE public.game_results_archive ADD PRIMARY KEY (game, issue_number);
+
+ALTER TABLE public.predictions_archive
+  ADD COLUMN game TEXT NOT NULL DEFAULT 'WinGo_30S' REFERENCES public.games(id);
+ALTER TABLE public.predictions_archive DROP CONSTRAINT predictions_archive_issue_number_mode_key;
+ALTER TABLE public.predictions_archive ADD CONSTRAINT predictions_archive_game_issue_number_mode_key
+  UNIQUE (game, issue_number, mode);
+
+DROP INDEX IF EXISTS public.idx_predictions_archive_mode_issue;
+CREATE INDEX idx_predictions_archive_game_mode_issue ON public.predictions_archive (game, mode, issue_number DESC);
+
+-- One active formula set per game and mode
+ALTER TABLE public.formula_sets
+  ADD COLUMN game TEXT NOT NULL DEFAULT 'WinGo_30S' REFERENCES public.games(id);
+DROP INDEX IF EXISTS public.idx_formula_sets_active_mode;
+CREATE UNIQUE INDEX idx_formula_sets_active_game_mode ON public.formula_sets (game, mode) WHERE is_active;
+
+ALTER TABLE public.formula_set_activations
+  ADD COLUMN game TEXT NOT NULL DEFAULT 'WinGo_30S';
+
+ALTER TABLE public.ingest_runs
+  ADD COLUMN game TEXT NOT NULL DEFAULT 'WinGo_30S' REFERENCES public.games(id);
+DROP INDEX IF EXISTS public.idx_ingest_runs_success;
+CREATE INDEX idx_ingest_runs_game_success ON public.ingest_runs (game, finished_at DESC) WHERE status = 'success';
+
+-- Archive copies carry the game along
+CREATE OR REPLACE FUNCTION public.archive_game_result()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO public.game_results_archive (game, issue_number, number, color, premium, sum, created_at)
+  VALUES (NEW.game, NEW.issue_number, NEW.number, NEW.color, NEW.premium, NEW.sum, NEW.created_at)
+  ON CONFLICT (game, issue_number) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.archive_settled_prediction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.correct IS NULL OR (TG_OP = 'UPDATE' AND OLD.correct IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.predictions_archive
+    (id, game, issue_number, mode, prediction, correct, formula_applied, formula_set_id, created_at)
+  VALUES
+    (NEW.id, NEW.game, NEW.issue_number, NEW.mode, NEW.prediction, NEW.correct, NEW.formula_applied, NEW.formula_set_id, NEW.created_at)
+  ON CONFLICT (game, issue_number, mode) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_formula_set_activation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT coalesce(NEW.is_active, false) THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND coalesce(NEW.is_active, false) = coalesce(OLD.is_active, false) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.formula_set_activations (formula_set_id, game, mode, engine_id, version, is_active, reason)
+  VALUES (
+    NEW.id, NEW.game, NEW.mode, NEW.engine_id, NEW.version, coalesce(NEW.is_active, false),
+    coalesce(nullif(current_setting('app.formula_set_reason', true), ''), 'manual')
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.activate_formula_set(text, text, jsonb, text);
+
+-- Retires the active set for a game and mode and activates a new version for the given engine
+CREATE OR REPLACE FUNCTION public.activate_formula_set(
+  p_mode text,
+  p_engine_id text,
+  p_formulas jsonb DEFAULT '[]'::jsonb,
+  p_reason text DEFAULT 'manual',
+  p_game text DEFAULT 'WinGo_30S'
+)
+RETURNS public.formula_sets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_version integer;
+  v_set public.formula_sets;
+BEGIN
+  PERFORM set_config('app.formula_set_reason', p_reason, true);
+
+  UPDATE public.formula_sets
+  SET is_active = false, deactivated_at = now()
+  WHERE game = p_game AND mode = p_mode AND is_active;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version
+  FROM public.formula_sets
+  WHERE game = p_game AND mode = p_mode;
+
+  INSERT INTO public.formula_sets (game, mode, engine_id, version, formulas, is_active)
+  VALUES (p_game, p_mode, p_engine_id, v_version, p_formulas, true)
+  RETURNING * INTO v_set;
+
+  RETURN v_set;
+END;
+$$;
+
+-- Live window and archive retention apply per game
+CREATE OR REPLACE FUNCTION public.trim_game_results()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_policy public.retention_policies;
+BEGIN
+  SELECT * INTO v_policy FROM public.retention_policies WHERE table_name = 'game_results';
+
+  IF v_policy.keep_rows IS NOT NULL THEN
+    DELETE FROM public.game_results
+    WHERE id NOT IN (
+      SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY game ORDER BY issue_number DESC) as rn
+        FROM public.game_results
+      ) sub
+      WHERE rn <= v_policy.keep_rows
+    );
+  END IF;
+
+  IF v_policy.keep_days IS NOT NULL THEN
+    DELETE FROM public.game_results
+    WHERE created_at < now() - make_interval(days => v_policy.keep_days);
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.trim_predictions()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_policy public.retention_policies;
+BEGIN
+  SELECT * INTO v_policy FROM public.retention_policies WHERE table_name = 'predictions';
+
+  IF v_policy.keep_rows IS NOT NULL THEN
+    DELETE FROM public.predictions
+    WHERE id NOT IN (
+      SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY game, mode ORDER BY issue_number DESC) as rn
+        FROM public.predictions
+      ) sub
+      WHERE rn <= v_policy.keep_rows
+    );
+  END IF;
+
+  IF v_policy.keep_days IS NOT NULL THEN
+    DELETE FROM public.predictions
+    WHERE created_at < now() - make_interval(days => v_policy.keep_days);
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.trim_archives()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_results public.retention_policies;
+  v_preds public.retention_policies;
+BEGIN
+  SELECT * INTO v_results FROM public.retention_policies WHERE table_name = 'game_results_archive';
+  SELECT * INTO v_preds FROM public.retention_policies WHERE table_name = 'predictions_archive';
+
+  PERFORM set_config('app.archive_retention', 'on', true);
+
+  IF v_results.keep_rows IS NOT NULL THEN
+    DELETE FROM public.game_results_archive a
+    USING (
+      SELECT game, issue_number,
+        ROW_NUMBER() OVER (PARTITION BY game ORDER BY issue_number DESC) as rn
+      FROM public.game_results_archive
+    ) ranked
+    WHERE a.game = ranked.game AND a.issue_number = ranked.issue_number
+      AND ranked.rn > v_results.keep_rows;
+  END IF;
+  IF v_results.keep_days IS NOT NULL THEN
+    DELETE FROM public.game_results_archive
+    WHERE created_at < now() - make_interval(days => v_results.keep_days);
+  END IF;
+
+  IF v_preds.keep_rows IS NOT NULL THEN
+    DELETE FROM public.predictions_archive
+    WHERE id NOT IN (
+      SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY game, mode ORDER BY issue_number DESC) as rn
+        FROM public.predictions_archive
+      ) sub
+      WHERE rn <= v_preds.keep_rows
+    );
+  END IF;
+  IF v_preds.keep_days IS NOT NULL THEN
+    DELETE FROM public.predictions_archive
+    WHERE created_at < now() - make_interval(days => v_preds.keep_days);
+  END IF;
+
+  PERFORM set_config('app.archive_retention', 'off', true);
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.get_history_with_predictions(text);
+
+CREATE OR REPLACE FUNCTION public.get_history_with_predictions(p_mode text, p_game text DEFAULT 'WinGo_30S')
+ RETURNS TABLE(issue_number text, number integer, color text, premium text, prediction text, correct boolean)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    gr.issue_number,
+    gr.number,
+    gr.color,
+    gr.premium,
+    p.prediction,
+    p.correct
+  FROM public.game_results gr
+  LEFT JOIN public.predictions p
+    ON gr.game = p.game AND gr.issue_number = p.issue_number AND p.mode = p_mode
+  WHERE gr.game = p_game
+  ORDER BY gr.issue_number DESC
+  LIMIT 10;
+END;
+$function$;
+
+-- Each game gets its own ingest cadence. Longer periods close on minute
+-- boundaries (3 and 5 divide the 18:00 UTC day start), so a plain cron step
+-- plus the same 2s grace as the 30s game is enough.
+SELECT cron.schedule(
+  'fetch-wingo-data-30s-a',
+  '* * * * *',
+  $$SELECT pg_sleep(2); SELECT public.invoke_fetch_wingo_data('{"game": "WinGo_30S"}');$$
+);
+
+SELECT cron.schedule(
+  'fetch-wingo-data-30s-b',
+  '* * * * *',
+  $$SELECT pg_sleep(32); SELECT public.invoke_fetch_wingo_data('{"game": "WinGo_30S"}');$$
+);
+
+SELECT cron.schedule(
+  'fetch-wingo-data-1m',
+  '* * * * *',
+  $$SELECT pg_sleep(2); SELECT public.invoke_fetch_wingo_data('{"game": "WinGo_1M"}');$$
+);
+
+SELECT cron.schedule(
+  'fetch-wingo-data-3m',
+  '*/3 * * * *',
+  $$SELECT pg_sleep(2); SELECT public.invoke_fetch_wingo_data('{"game": "WinGo_3M"}');$$
+);
+
+SELECT cron.schedule(
+  'fetch-wingo-data-5m',
+  '*/5 * * * *',
+  $$SELECT pg_sleep(2); SELECT public.invoke_fetch_wingo_data('{"game": "WinGo_5M"}');$$
+);
@@ -0,0 +1,60 @@
+
+-- The anon key ships to every browser, so the "Service role can ..." policies let
+-- anyone rewrite results or settle predictions. The service role bypasses RLS and
+-- needs no policies; browsers only read, through the SECURITY DEFINER functions below.
+DROP POLICY IF EXISTS "Service role can insert game_results" ON public.game_results;
+DROP POLICY IF EXISTS "Service role can update game_results" ON public.game_results;
+DROP POLICY IF EXISTS "Service role can delete game_results" ON public.game_results;
+
+DROP POLICY IF EXISTS "Service role can insert predictions" ON public.predictions;
+DROP POLICY IF EXISTS "Service role can update predictions" ON public.predictions;
+DROP POLICY IF EXISTS "Service role can delete predictions" ON public.predictions;
+
+DROP POLICY IF EXISTS "Service role can insert formula_sets" ON public.formula_sets;
+DROP POLICY IF EXISTS "Service role can update formula_sets" ON public.formula_sets;
+DROP POLICY IF EXISTS "Service role can delete formula_sets" ON public.formula_sets;
+
+-- No direct table reads either
+DROP POLICY IF EXISTS "Public can read game_results" ON public.game_results;
+DROP POLICY IF EXISTS "Public can read predictions" ON public.predictions;
+DROP POLICY IF EXISTS "Public can read formula_sets" ON public.formula_sets;
+DROP POLICY IF EXISTS "Public can read formula_set_activations" ON public.formula_set_activations;
+DROP POLICY IF EXISTS "Public can read game_results_archive" ON public.game_results_archive;
+DROP POLICY IF EXISTS "Public can read predictions_archive" ON public.predictions_archive;
+DROP POLICY IF EXISTS "Public can read retention_policies" ON public.retention_policies;
+DROP POLICY IF EXISTS "Public can read ingest_runs" ON public.ingest_runs;
+DROP POLICY IF EXISTS "Public can read games" ON public.games;
+
+-- RLS stays on as a second line; table grants are the first
+REVOKE ALL ON ALL TABLES IN SCHEMA public FROM anon, authenticated;
+REVOKE ALL ON ALL SEQUENCES IN SCHEMA public FROM anon, authenticated;
+
+ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA public REVOKE ALL ON TABLES FROM anon, authenticated;
+ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA public REVOKE ALL ON SEQUENCES FROM anon, authenticated;
+
+-- Functions are executable by PUBLIC unless revoked. Only the read functions are
+-- granted back; new functions must be granted explicitly.
+REVOKE EXECUTE ON ALL FUNCTIONS IN SCHEMA public FROM PUBLIC, anon, authenticated;
+ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA public REVOKE EXECUTE ON FUNCTIONS FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO service_role;
+
+-- Prediction for one period, used by the panel for the upcoming period
+CREATE OR REPLACE FUNCTION public.get_prediction(p_mode text, p_issue_number text, p_game text DEFAULT 'WinGo_30S')
+ RETURNS TABLE(issue_number text, prediction text, formula_applied jsonb)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT p.issue_number, p.prediction, p.formula_applied
+  FROM public.predictions p
+  WHERE p.game = p_game AND p.mode = p_mode AND p.issue_number = p_issue_number;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_prediction(text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_prediction(text, text, text) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_history_with_predictions(text, text) TO anon, authenticated;
@@ -0,0 +1,50 @@
+
+-- Ingest lease per game. Concurrent invocations of fetch-wingo-data coalesce: the
+-- first takes the lease and runs, the rest see it held and return. Leases expire
+-- so a crashed run cannot block ingestion for longer than its TTL.
+CREATE TABLE public.ingest_locks (
+  game TEXT NOT NULL PRIMARY KEY REFERENCES public.games(id),
+  holder UUID NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE public.ingest_locks ENABLE ROW LEVEL SECURITY;
+
+-- Returns true when p_holder now holds the lease. A transaction-scoped advisory
+-- lock serializes competing callers, so exactly one of them sees a free lease.
+CREATE OR REPLACE FUNCTION public.acquire_ingest_lock(p_game text, p_holder uuid, p_ttl_seconds integer DEFAULT 60)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('fetch-wingo-data:' || p_game));
+
+  INSERT INTO public.ingest_locks (game, holder, acquired_at, expires_at)
+  VALUES (p_game, p_holder, now(), now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (game) DO UPDATE
+    SET holder = EXCLUDED.holder, acquired_at = EXCLUDED.acquired_at, expires_at = EXCLUDED.expires_at
+    WHERE public.ingest_locks.expires_at <= now() OR public.ingest_locks.holder = p_holder;
+
+  -- FOUND is false when the conflicting lease was still held by someone else
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_ingest_lock(p_game text, p_holder uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.ingest_locks WHERE game = p_game AND holder = p_holder;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_ingest_lock(text, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_ingest_lock(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.acquire_ingest_lock(text, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_ingest_lock(text, uuid) TO service_role;
@@ -0,0 +1,147 @@
+
+-- Settlement rule of isWinningPick (supabase/functions/_shared/outcome.ts) for a
+-- stored result: RED wins on 0 (red + violet), VIOLET wins on 0 and 5.
+CREATE OR REPLACE FUNCTION public.wingo_pick_wins(p_mode text, p_pick text, p_number integer, p_color text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_mode
+    WHEN 'size' THEN p_pick = CASE WHEN p_number <= 4 THEN 'SMALL' ELSE 'BIG' END
+    WHEN 'number' THEN p_pick = p_number::text
+    WHEN 'color' THEN CASE
+      WHEN p_pick = 'VIOLET' THEN lower(p_color) LIKE '%violet%'
+      ELSE p_pick = CASE WHEN lower(p_color) LIKE '%red%' THEN 'RED'
+                         WHEN lower(p_color) LIKE '%green%' THEN 'GREEN'
+                         WHEN p_number % 2 = 0 THEN 'RED'
+                         ELSE 'GREEN' END
+    END
+    ELSE false
+  END
+$$;
+
+-- Settles every pending prediction of a game up to p_latest_issue with one UPDATE
+-- against the archive and feeds the outcomes to their formula sets, in period
+-- order so failure streaks stay correct.
+CREATE OR REPLACE FUNCTION public.settle_pending_predictions(
+  p_game text,
+  p_latest_issue text,
+  p_failure_threshold integer DEFAULT 10
+)
+RETURNS TABLE(change text, issue_number text, mode text, prediction text, correct boolean, formula_set_version integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_row record;
+BEGIN
+  FOR v_row IN
+    WITH settled AS (
+      UPDATE public.predictions p
+      SET correct = public.wingo_pick_wins(p.mode, p.prediction, a.number, a.color)
+      FROM public.game_results_archive a
+      WHERE p.game = p_game
+        AND p.correct IS NULL
+        AND p.issue_number <= p_latest_issue
+        AND a.game = p.game
+        AND a.issue_number = p.issue_number
+      RETURNING p.issue_number, p.mode, p.prediction, p.correct, p.formula_set_id
+    )
+    SELECT s.*, fs.version FROM settled s
+    LEFT JOIN public.formula_sets fs ON fs.id = s.formula_set_id
+    ORDER BY s.issue_number, s.mode
+  LOOP
+    IF v_row.formula_set_id IS NOT NULL THEN
+      PERFORM public.record_formula_set_outcome(v_row.formula_set_id, v_row.correct, p_failure_threshold);
+    END IF;
+    change := 'settled';
+    issue_number := v_row.issue_number;
+    mode := v_row.mode;
+    prediction := v_row.prediction;
+    correct := v_row.correct;
+    formula_set_version := v_row.version;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- One ingest step after the results are stored:
+--   1. settles the pending predictions (may retire formula sets),
+--   2. activates a formula set for each live pick whose engine has none active
+--      (or whose active set runs another engine),
+--   3. inserts the supplied predictions that do not exist yet,
+--   4. settles the retroactive fills just inserted and trims the live window.
+-- p_predictions is a JSON array of
+--   { issue_number, mode, prediction, formula_applied, engine?: { id, description } }.
+-- Entries with an engine are live picks and are linked to that engine's active
+-- formula set; entries without one are retroactive fills and stay unlinked.
+-- Returns one row per prediction created ('predicted') or settled ('settled').
+CREATE OR REPLACE FUNCTION public.settle_and_predict(
+  p_game text,
+  p_latest_issue text,
+  p_predictions jsonb DEFAULT '[]'::jsonb,
+  p_failure_threshold integer DEFAULT 10
+)
+RETURNS TABLE(change text, issue_number text, mode text, prediction text, correct boolean, formula_set_version integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_live record;
+  v_set public.formula_sets;
+BEGIN
+  RETURN QUERY SELECT * FROM public.settle_pending_predictions(p_game, p_latest_issue, p_failure_threshold);
+
+  FOR v_live IN
+    SELECT DISTINCT ON (x.mode) x.mode, x.engine
+    FROM jsonb_to_recordset(p_predictions) AS x(mode text, engine jsonb)
+    WHERE x.engine IS NOT NULL
+  LOOP
+    SELECT * INTO v_set FROM public.formula_sets fs
+    WHERE fs.game = p_game AND fs.mode = v_live.mode AND fs.is_active;
+
+    IF v_set.id IS NULL OR v_set.engine_id <> v_live.engine->>'id' THEN
+      PERFORM public.activate_formula_set(
+        v_live.mode,
+        v_live.engine->>'id',
+        jsonb_build_array(v_live.engine),
+        CASE WHEN v_set.id IS NULL THEN 'no active set'
+             ELSE format('engine changed %s → %s', v_set.engine_id, v_live.engine->>'id') END,
+        p_game
+      );
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO public.predictions AS p (game, issue_number, mode, prediction, formula_applied, formula_set_id)
+    SELECT p_game, x.issue_number, x.mode, x.prediction, x.formula_applied,
+      CASE WHEN x.engine IS NOT NULL THEN (
+        SELECT fs.id FROM public.formula_sets fs
+        WHERE fs.game = p_game AND fs.mode = x.mode AND fs.is_active
+      ) END
+    FROM jsonb_to_recordset(p_predictions)
+      AS x(issue_number text, mode text, prediction text, formula_applied jsonb, engine jsonb)
+    ON CONFLICT ON CONSTRAINT predictions_game_issue_number_mode_key DO NOTHING
+    RETURNING p.issue_number, p.mode, p.prediction, p.formula_set_id
+  )
+  SELECT 'predicted'::text, i.issue_number, i.mode, i.prediction, NULL::boolean, fs.version
+  FROM inserted i
+  LEFT JOIN public.formula_sets fs ON fs.id = i.formula_set_id
+  ORDER BY i.issue_number, i.mode;
+
+  RETURN QUERY SELECT * FROM public.settle_pending_predictions(p_game, p_latest_issue, p_failure_threshold);
+
+  PERFORM public.trim_game_results();
+  PERFORM public.trim_predictions();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_pending_predictions(text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_and_predict(text, text, jsonb, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_pending_predictions(text, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_and_predict(text, text, jsonb, integer) TO service_role;
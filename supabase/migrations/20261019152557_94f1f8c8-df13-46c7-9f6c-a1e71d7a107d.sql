@@ -0,0 +1,311 @@
+
+-- Tamper-evident predictions. Every new prediction is written before its period
+-- closes and carries a SHA-256 commitment to its pick:
+--   sha256("<game>|<issue_number>|<mode>|<prediction>|<salt>")
+-- The salt stays private until the prediction is settled; verify_predictions then
+-- reveals it so anyone can recompute the hash. Rows written before this migration
+-- have no commitment and are reported as unverified.
+
+-- Close time of a period: periods are numbered from 1 starting at midnight GMT+6
+CREATE OR REPLACE FUNCTION public.wingo_period_close_at(p_game text, p_issue_number text)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (to_date(left(p_issue_number, 8), 'YYYYMMDD')::timestamp - interval '6 hours') AT TIME ZONE 'UTC'
+    + make_interval(secs => right(p_issue_number, 4)::int * g.period_seconds)
+  FROM public.games g
+  WHERE g.id = p_game
+$$;
+
+-- Issue number of the period running at p_at
+CREATE OR REPLACE FUNCTION public.wingo_issue_number_at(p_game text, p_at timestamptz DEFAULT now())
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_char(p_at AT TIME ZONE 'UTC' + interval '6 hours', 'YYYYMMDD')
+    || g.issue_code
+    || lpad((floor(extract(epoch FROM (p_at AT TIME ZONE 'UTC' + interval '6 hours')::time) / g.period_seconds)::integer + 1)::text, 4, '0')
+  FROM public.games g
+  WHERE g.id = p_game
+$$;
+
+CREATE OR REPLACE FUNCTION public.wingo_commitment(
+  p_game text,
+  p_issue_number text,
+  p_mode text,
+  p_prediction text,
+  p_salt text
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|', p_game, p_issue_number, p_mode, p_prediction, p_salt), 'UTF8')), 'hex')
+$$;
+
+ALTER TABLE public.predictions
+  ADD COLUMN commitment TEXT,
+  ADD COLUMN closes_at TIMESTAMPTZ;
+
+ALTER TABLE public.predictions_archive
+  ADD COLUMN commitment TEXT,
+  ADD COLUMN closes_at TIMESTAMPTZ,
+  ADD COLUMN salt TEXT;
+
+-- Salts of live predictions, kept apart so nothing that exposes predictions
+-- exposes them. Copied into the archive once the prediction is settled.
+CREATE TABLE public.prediction_reveals (
+  prediction_id UUID NOT NULL PRIMARY KEY REFERENCES public.predictions(id) ON DELETE CASCADE,
+  salt TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.prediction_reveals ENABLE ROW LEVEL SECURITY;
+
+-- New predictions must be committed and written before their period closes; the
+-- timestamps are set here, not by the caller. Afterwards only settlement may
+-- change a row, once.
+CREATE OR REPLACE FUNCTION public.guard_prediction()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_at := now();
+    NEW.closes_at := public.wingo_period_close_at(NEW.game, NEW.issue_number);
+    IF NEW.closes_at IS NULL OR NEW.created_at >= NEW.closes_at THEN
+      RAISE EXCEPTION 'Prediction for % % arrives after its period closed (%)', NEW.game, NEW.issue_number, NEW.closes_at;
+    END IF;
+    IF NEW.commitment IS NULL THEN
+      RAISE EXCEPTION 'Prediction for % % has no commitment', NEW.game, NEW.issue_number;
+    END IF;
+    IF NEW.correct IS NOT NULL THEN
+      RAISE EXCEPTION 'Prediction for % % cannot be inserted already settled', NEW.game, NEW.issue_number;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.game, NEW.issue_number, NEW.mode, NEW.prediction, NEW.commitment, NEW.created_at, NEW.closes_at)
+       IS DISTINCT FROM (OLD.game, OLD.issue_number, OLD.mode, OLD.prediction, OLD.commitment, OLD.created_at, OLD.closes_at)
+     OR NEW.formula_applied::text IS DISTINCT FROM OLD.formula_applied::text
+     OR (OLD.correct IS NOT NULL AND NEW.correct IS DISTINCT FROM OLD.correct) THEN
+    RAISE EXCEPTION 'Prediction for % % is immutable once written', OLD.game, OLD.issue_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_predictions_guard
+  BEFORE INSERT OR UPDATE ON public.predictions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_prediction();
+
+CREATE OR REPLACE FUNCTION public.archive_settled_prediction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.correct IS NULL OR (TG_OP = 'UPDATE' AND OLD.correct IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.predictions_archive
+    (id, game, issue_number, mode, prediction, correct, formula_applied, formula_set_id, created_at,
+     commitment, closes_at, salt)
+  VALUES
+    (NEW.id, NEW.game, NEW.issue_number, NEW.mode, NEW.prediction, NEW.correct, NEW.formula_applied, NEW.formula_set_id, NEW.created_at,
+     NEW.commitment, NEW.closes_at, (SELECT r.salt FROM public.prediction_reveals r WHERE r.prediction_id = NEW.id))
+  ON CONFLICT (game, issue_number, mode) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+-- One ingest step after the results are stored. Only periods still open can be
+-- predicted, so past periods are never filled in retroactively; each inserted
+-- pick gets a fresh salt and its commitment.
+--   1. settles the pending predictions (may retire formula sets),
+--   2. activates a formula set for each pick's engine when none is active
+--      (or the active set runs another engine),
+--   3. inserts the supplied picks that do not exist yet, linked to those sets,
+--   4. trims the live window.
+-- p_predictions is a JSON array of
+--   { issue_number, mode, prediction, formula_applied, engine: { id, description } }.
+-- Returns one row per prediction created ('predicted') or settled ('settled').
+CREATE OR REPLACE FUNCTION public.settle_and_predict(
+  p_game text,
+  p_latest_issue text,
+  p_predictions jsonb DEFAULT '[]'::jsonb,
+  p_failure_threshold integer DEFAULT 10
+)
+RETURNS TABLE(change text, issue_number text, mode text, prediction text, correct boolean, formula_set_version integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_live record;
+  v_set public.formula_sets;
+BEGIN
+  RETURN QUERY SELECT * FROM public.settle_pending_predictions(p_game, p_latest_issue, p_failure_threshold);
+
+  FOR v_live IN
+    SELECT DISTINCT ON (x.mode) x.mode, x.engine
+    FROM jsonb_to_recordset(p_predictions) AS x(mode text, engine jsonb)
+    WHERE x.engine IS NOT NULL
+  LOOP
+    SELECT * INTO v_set FROM public.formula_sets fs
+    WHERE fs.game = p_game AND fs.mode = v_live.mode AND fs.is_active;
+
+    IF v_set.id IS NULL OR v_set.engine_id <> v_live.engine->>'id' THEN
+      PERFORM public.activate_formula_set(
+        v_live.mode,
+        v_live.engine->>'id',
+        jsonb_build_array(v_live.engine),
+        CASE WHEN v_set.id IS NULL THEN 'no active set'
+             ELSE format('engine changed %s → %s', v_set.engine_id, v_live.engine->>'id') END,
+        p_game
+      );
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH picks AS (
+    SELECT x.*, gen_random_uuid()::text AS salt
+    FROM jsonb_to_recordset(p_predictions)
+      AS x(issue_number text, mode text, prediction text, formula_applied jsonb, engine jsonb)
+    -- A period that has already closed can no longer be predicted
+    WHERE now() < public.wingo_period_close_at(p_game, x.issue_number)
+  ),
+  inserted AS (
+    INSERT INTO public.predictions AS p
+      (game, issue_number, mode, prediction, formula_applied, formula_set_id, commitment)
+    SELECT p_game, i.issue_number, i.mode, i.prediction, i.formula_applied,
+      (
+        SELECT fs.id FROM public.formula_sets fs
+        WHERE fs.game = p_game AND fs.mode = i.mode AND fs.is_active
+      ),
+      public.wingo_commitment(p_game, i.issue_number, i.mode, i.prediction, i.salt)
+    FROM picks i
+    ON CONFLICT ON CONSTRAINT predictions_game_issue_number_mode_key DO NOTHING
+    RETURNING p.id, p.issue_number, p.mode, p.prediction, p.formula_set_id
+  ),
+  revealed AS (
+    INSERT INTO public.prediction_reveals (prediction_id, salt)
+    SELECT ins.id, i.salt
+    FROM inserted ins
+    JOIN picks i ON i.issue_number = ins.issue_number AND i.mode = ins.mode
+  )
+  SELECT 'predicted'::text, ins.issue_number, ins.mode, ins.prediction, NULL::boolean, fs.version
+  FROM inserted ins
+  LEFT JOIN public.formula_sets fs ON fs.id = ins.formula_set_id
+  ORDER BY ins.issue_number, ins.mode;
+
+  PERFORM public.trim_game_results();
+  PERFORM public.trim_predictions();
+END;
+$$;
+
+-- History rows say whether their prediction carries a commitment
+DROP FUNCTION IF EXISTS public.get_history_with_predictions(text, text);
+
+CREATE OR REPLACE FUNCTION public.get_history_with_predictions(p_mode text, p_game text DEFAULT 'WinGo_30S')
+ RETURNS TABLE(issue_number text, number integer, color text, premium text, prediction text, correct boolean, committed boolean)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    gr.issue_number,
+    gr.number,
+    gr.color,
+    gr.premium,
+    p.prediction,
+    p.correct,
+    p.commitment IS NOT NULL
+  FROM public.game_results gr
+  LEFT JOIN public.predictions p
+    ON gr.game = p.game AND gr.issue_number = p.issue_number AND p.mode = p_mode
+  WHERE gr.game = p_game
+  ORDER BY gr.issue_number DESC
+  LIMIT 10;
+END;
+$function$;
+
+-- The upcoming prediction is published with its commitment
+DROP FUNCTION IF EXISTS public.get_prediction(text, text, text);
+
+CREATE OR REPLACE FUNCTION public.get_prediction(p_mode text, p_issue_number text, p_game text DEFAULT 'WinGo_30S')
+ RETURNS TABLE(issue_number text, prediction text, formula_applied jsonb, commitment text, closes_at timestamptz)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT p.issue_number, p.prediction, p.formula_applied, p.commitment, p.closes_at
+  FROM public.predictions p
+  WHERE p.game = p_game AND p.mode = p_mode AND p.issue_number = p_issue_number;
+END;
+$function$;
+
+-- Settled predictions with their revealed salt, the recomputed commitment check and
+-- whether the row was written before its period closed. Newest first.
+CREATE OR REPLACE FUNCTION public.verify_predictions(
+  p_game text DEFAULT 'WinGo_30S',
+  p_from_issue text DEFAULT NULL,
+  p_to_issue text DEFAULT NULL,
+  p_limit integer DEFAULT 100
+)
+ RETURNS TABLE(
+   issue_number text,
+   mode text,
+   prediction text,
+   correct boolean,
+   created_at timestamptz,
+   closes_at timestamptz,
+   commitment text,
+   salt text,
+   commitment_valid boolean,
+   written_before_close boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    a.issue_number,
+    a.mode,
+    a.prediction,
+    a.correct,
+    a.created_at,
+    public.wingo_period_close_at(a.game, a.issue_number),
+    a.commitment,
+    a.salt,
+    coalesce(a.commitment = public.wingo_commitment(a.game, a.issue_number, a.mode, a.prediction, a.salt), false),
+    a.created_at < public.wingo_period_close_at(a.game, a.issue_number)
+  FROM public.predictions_archive a
+  WHERE a.game = p_game
+    AND (p_from_issue IS NULL OR a.issue_number >= p_from_issue)
+    AND (p_to_issue IS NULL OR a.issue_number <= p_to_issue)
+  ORDER BY a.issue_number DESC, a.mode
+  LIMIT least(greatest(p_limit, 1), 1000);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_prediction(text, text, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_history_with_predictions(text, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.verify_predictions(text, text, text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_prediction(text, text, text) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_history_with_predictions(text, text) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.verify_predictions(text, text, text, integer) TO anon, authenticated, service_role;
@@ -0,0 +1,52 @@
+
+-- Accuracy of the committed predictions of one game and mode over the last 50,
+-- the last 500 and all retained settled periods, plus the current run of wins
+-- or losses. Picks written without a commitment are left out.
+CREATE OR REPLACE FUNCTION public.get_prediction_stats(p_mode text, p_game text DEFAULT 'WinGo_30S')
+ RETURNS TABLE(
+   settled_50 integer,
+   hits_50 integer,
+   settled_500 integer,
+   hits_500 integer,
+   settled_all integer,
+   hits_all integer,
+   streak_length integer,
+   streak_wins boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT a.correct, row_number() OVER (ORDER BY a.issue_number DESC) AS rn
+    FROM public.predictions_archive a
+    WHERE a.game = p_game AND a.mode = p_mode AND a.commitment IS NOT NULL
+  ),
+  latest AS (
+    SELECT r.correct FROM ranked r WHERE r.rn = 1
+  ),
+  streak AS (
+    -- Rows before the first one that differs from the latest outcome
+    SELECT coalesce(
+      (SELECT min(r.rn) FROM ranked r, latest l WHERE r.correct <> l.correct) - 1,
+      (SELECT count(*) FROM ranked)
+    )::integer AS run_length
+  )
+  SELECT
+    count(*) FILTER (WHERE r.rn <= 50)::integer,
+    count(*) FILTER (WHERE r.rn <= 50 AND r.correct)::integer,
+    count(*) FILTER (WHERE r.rn <= 500)::integer,
+    count(*) FILTER (WHERE r.rn <= 500 AND r.correct)::integer,
+    count(*)::integer,
+    count(*) FILTER (WHERE r.correct)::integer,
+    (SELECT s.run_length FROM streak s),
+    (SELECT l.correct FROM latest l)
+  FROM ranked r;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_prediction_stats(text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_prediction_stats(text, text) TO anon, authenticated, service_role;
@@ -0,0 +1,22 @@
+
+-- Drawn results of one game, newest first, for the randomness report. Reads the
+-- archive so the sequence is not cut short by the live window.
+CREATE OR REPLACE FUNCTION public.get_archived_results(p_game text DEFAULT 'WinGo_30S', p_limit integer DEFAULT 5000)
+ RETURNS TABLE(issue_number text, number integer, color text)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT a.issue_number, a.number, a.color
+  FROM public.game_results_archive a
+  WHERE a.game = p_game
+  ORDER BY a.issue_number DESC
+  LIMIT least(greatest(p_limit, 1), 20000);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_archived_results(text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_archived_results(text, integer) TO anon, authenticated, service_role;
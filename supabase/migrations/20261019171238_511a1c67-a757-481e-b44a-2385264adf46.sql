@@ -0,0 +1,130 @@
+
+-- Aggregates behind the /stats page. Each returns a few dozen rows computed in
+-- the database, so the browser never downloads the raw history.
+
+-- How often each digit was drawn over the last p_limit archived draws
+CREATE OR REPLACE FUNCTION public.get_digit_frequency(p_game text DEFAULT 'WinGo_30S', p_limit integer DEFAULT 1000)
+ RETURNS TABLE(digit integer, draws integer)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH recent AS (
+    SELECT a.number FROM public.game_results_archive a
+    WHERE a.game = p_game
+    ORDER BY a.issue_number DESC
+    LIMIT least(greatest(p_limit, 1), 20000)
+  )
+  SELECT d.digit, count(r.number)::integer
+  FROM generate_series(0, 9) AS d(digit)
+  LEFT JOIN recent r ON r.number = d.digit
+  GROUP BY d.digit
+  ORDER BY d.digit;
+END;
+$function$;
+
+-- Hit rate of each engine and mode over a rolling window of its last p_window
+-- settled predictions, sampled every p_step predictions (latest p_points samples)
+CREATE OR REPLACE FUNCTION public.get_rolling_hit_rate(
+  p_game text DEFAULT 'WinGo_30S',
+  p_window integer DEFAULT 50,
+  p_step integer DEFAULT 10,
+  p_points integer DEFAULT 60
+)
+ RETURNS TABLE(mode text, engine_id text, issue_number text, settled integer, hit_rate double precision)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH picks AS (
+    SELECT a.mode, fs.engine_id, a.issue_number, a.correct,
+      row_number() OVER (PARTITION BY a.mode, fs.engine_id ORDER BY a.issue_number) AS rn,
+      count(*) OVER (PARTITION BY a.mode, fs.engine_id) AS total,
+      avg(a.correct::int) OVER (
+        PARTITION BY a.mode, fs.engine_id ORDER BY a.issue_number
+        ROWS BETWEEN greatest(p_window, 1) - 1 PRECEDING AND CURRENT ROW
+      ) AS rate
+    FROM public.predictions_archive a
+    JOIN public.formula_sets fs ON fs.id = a.formula_set_id
+    WHERE a.game = p_game
+  )
+  SELECT p.mode, p.engine_id, p.issue_number, least(p.rn, greatest(p_window, 1))::integer, p.rate::double precision
+  FROM picks p
+  -- Samples are aligned on the latest prediction so the newest point is always included
+  WHERE (p.total - p.rn) % greatest(p_step, 1) = 0
+    AND (p.total - p.rn) / greatest(p_step, 1) < greatest(p_points, 1)
+  ORDER BY p.mode, p.engine_id, p.issue_number;
+END;
+$function$;
+
+-- Lengths of the runs of consecutive wins and losses of settled predictions
+CREATE OR REPLACE FUNCTION public.get_streak_distribution(p_mode text, p_game text DEFAULT 'WinGo_30S')
+ RETURNS TABLE(wins boolean, length integer, runs integer)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT a.correct,
+      row_number() OVER (ORDER BY a.issue_number)
+        - row_number() OVER (PARTITION BY a.correct ORDER BY a.issue_number) AS island
+    FROM public.predictions_archive a
+    WHERE a.game = p_game AND a.mode = p_mode
+  ),
+  islands AS (
+    SELECT o.correct, count(*)::integer AS run_length
+    FROM ordered o
+    GROUP BY o.correct, o.island
+  )
+  SELECT i.correct, i.run_length, count(*)::integer
+  FROM islands i
+  GROUP BY i.correct, i.run_length
+  ORDER BY i.correct DESC, i.run_length;
+END;
+$function$;
+
+-- Draws of each digit per hour of the day in GMT+6 over the last p_days. The hour
+-- comes from the period's sequence number, which restarts at midnight GMT+6.
+CREATE OR REPLACE FUNCTION public.get_hourly_digit_heatmap(p_game text DEFAULT 'WinGo_30S', p_days integer DEFAULT 30)
+ RETURNS TABLE(hour integer, digit integer, draws integer)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  SELECT
+    ((right(a.issue_number, 4)::int - 1) * g.period_seconds / 3600)::integer,
+    a.number,
+    count(*)::integer
+  FROM public.game_results_archive a
+  JOIN public.games g ON g.id = a.game
+  WHERE a.game = p_game
+    AND a.created_at >= now() - make_interval(days => least(greatest(p_days, 1), 365))
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_digit_frequency(text, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_rolling_hit_rate(text, integer, integer, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_streak_distribution(text, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_hourly_digit_heatmap(text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_digit_frequency(text, integer) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_rolling_hit_rate(text, integer, integer, integer) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_streak_distribution(text, text) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_hourly_digit_heatmap(text, integer) TO anon, authenticated, service_role;
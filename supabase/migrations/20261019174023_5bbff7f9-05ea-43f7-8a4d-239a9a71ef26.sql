@@ -0,0 +1,13 @@
+
+-- The panel subscribes to Postgres changes on game_results and predictions instead
+-- of polling. Realtime only delivers rows the subscriber could SELECT, so browser
+-- roles get read access to these two tables back; every other table stays closed,
+-- and salts stay in prediction_reveals until settlement.
+GRANT SELECT ON public.game_results, public.predictions TO anon, authenticated;
+
+CREATE POLICY "Public can read game_results" ON public.game_results
+  FOR SELECT TO anon, authenticated USING (true);
+CREATE POLICY "Public can read predictions" ON public.predictions
+  FOR SELECT TO anon, authenticated USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.game_results, public.predictions;
@@ -0,0 +1,15 @@
+
+-- Wall-clock time of the database for the panel's clock-offset estimate. Uses
+-- clock_timestamp() rather than now(), which is frozen at the transaction start.
+CREATE OR REPLACE FUNCTION public.server_now()
+ RETURNS timestamptz
+ LANGUAGE sql
+ VOLATILE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT clock_timestamp()
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.server_now() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.server_now() TO anon, authenticated, service_role;
@@ -0,0 +1,117 @@
+
+-- Whether an issue number is a real period of the game's calendar: its issue code,
+-- a day that exists and a sequence within the day (see _shared/issue-number.ts)
+CREATE OR REPLACE FUNCTION public.wingo_issue_is_valid(p_game text, p_issue_number text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_game public.games%ROWTYPE;
+BEGIN
+  SELECT * INTO v_game FROM public.games WHERE id = p_game;
+  IF NOT FOUND OR p_issue_number !~ '^\d{17}$' OR substr(p_issue_number, 9, 5) <> v_game.issue_code THEN
+    RETURN false;
+  END IF;
+  IF right(p_issue_number, 4)::int NOT BETWEEN 1 AND 86400 / v_game.period_seconds THEN
+    RETURN false;
+  END IF;
+  -- to_date either rejects a day that does not exist (20260230) or rolls it over
+  RETURN to_char(to_date(left(p_issue_number, 8), 'YYYYMMDD'), 'YYYYMMDD') = left(p_issue_number, 8);
+EXCEPTION WHEN others THEN
+  RETURN false;
+END;
+$function$;
+
+-- Holes and anomalies in the newest p_limit archived results of a game.
+--   gap            periods never stored between two stored ones
+--                  (issue_number .. last_issue, missing periods)
+--   duplicate      the issue is also stored under another game
+--   invalid_issue  not a period of the game's calendar
+--   out_of_order   stored before its period closed
+--   bad_number     number outside 0-9
+--   color_mismatch color does not match the number (evens red, odds green, 0 and 5 also violet)
+CREATE OR REPLACE FUNCTION public.get_data_quality(p_game text DEFAULT 'WinGo_30S', p_limit integer DEFAULT 2000)
+ RETURNS TABLE(kind text, issue_number text, last_issue text, missing integer, detail text)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  v_period integer;
+BEGIN
+  SELECT g.period_seconds INTO v_period FROM public.games g WHERE g.id = p_game;
+  IF v_period IS NULL THEN
+    RAISE EXCEPTION 'Unknown game %', p_game;
+  END IF;
+
+  RETURN QUERY
+  WITH recent AS (
+    SELECT a.issue_number, a.number, a.color, a.primary_color, a.violet, a.created_at,
+      public.wingo_issue_is_valid(p_game, a.issue_number) AS valid
+    FROM public.game_results_archive a
+    WHERE a.game = p_game
+    ORDER BY a.issue_number DESC
+    LIMIT least(greatest(p_limit, 1), 20000)
+  ),
+  periods AS (
+    SELECT r.issue_number, r.created_at, public.wingo_period_close_at(p_game, r.issue_number) AS closes_at
+    FROM recent r
+    WHERE r.valid
+  ),
+  steps AS (
+    SELECT p.closes_at,
+      lag(p.closes_at) OVER (ORDER BY p.closes_at) AS prev_closes_at
+    FROM periods p
+  ),
+  findings AS (
+    -- The first missing period runs from the previous one's close; the last ends where the next starts
+    SELECT 'gap'::text AS kind,
+      public.wingo_issue_number_at(p_game, s.prev_closes_at) AS issue_number,
+      public.wingo_issue_number_at(p_game, s.closes_at - make_interval(secs => 2 * v_period)) AS last_issue,
+      (extract(epoch FROM s.closes_at - s.prev_closes_at)::integer / v_period - 1) AS missing,
+      NULL::text AS detail
+    FROM steps s
+    WHERE s.closes_at - s.prev_closes_at > make_interval(secs => v_period)
+
+    UNION ALL
+    SELECT 'duplicate', r.issue_number, NULL, NULL, 'also stored under ' || string_agg(o.game, ', ' ORDER BY o.game)
+    FROM recent r
+    JOIN public.game_results_archive o ON o.issue_number = r.issue_number AND o.game <> p_game
+    GROUP BY r.issue_number
+
+    UNION ALL
+    SELECT 'invalid_issue', r.issue_number, NULL, NULL, 'not a period of the ' || p_game || ' calendar'
+    FROM recent r
+    WHERE NOT r.valid
+
+    UNION ALL
+    SELECT 'out_of_order', p.issue_number, NULL, NULL,
+      'stored ' || to_char(p.closes_at - p.created_at, 'HH24:MI:SS') || ' before its period closed'
+    FROM periods p
+    WHERE p.created_at < p.closes_at
+
+    UNION ALL
+    SELECT 'bad_number', r.issue_number, NULL, NULL, 'number ' || r.number
+    FROM recent r
+    WHERE r.number NOT BETWEEN 0 AND 9
+
+    UNION ALL
+    SELECT 'color_mismatch', r.issue_number, NULL, NULL, 'color "' || r.color || '" for number ' || r.number
+    FROM recent r
+    WHERE r.number BETWEEN 0 AND 9
+      AND (lower(r.color) !~ '(red|green)'
+        OR r.primary_color <> CASE WHEN r.number % 2 = 0 THEN 'RED' ELSE 'GREEN' END
+        OR r.violet <> (r.number IN (0, 5)))
+  )
+  SELECT f.kind, f.issue_number, f.last_issue, f.missing, f.detail
+  FROM findings f
+  ORDER BY f.issue_number DESC, f.kind;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_data_quality(text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_data_quality(text, integer) TO anon, authenticated, service_role;
@@ -0,0 +1,20 @@
+
+-- Upstream failures are classified by the edge function (see _shared/upstream-client.ts)
+ALTER TABLE public.ingest_runs
+  ADD COLUMN IF NOT EXISTS upstream_attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS error_kind TEXT
+    CHECK (error_kind IN ('network', 'http', 'api_code', 'schema', 'circuit_open'));
+
+-- Circuit breaker per game, carried from one invocation to the next. Only the
+-- edge function (service role) touches it, while holding the game's ingest lock.
+CREATE TABLE public.upstream_breakers (
+  game TEXT NOT NULL PRIMARY KEY REFERENCES public.games(id),
+  state TEXT NOT NULL DEFAULT 'closed' CHECK (state IN ('closed', 'open')),
+  failures INT NOT NULL DEFAULT 0 CHECK (failures >= 0),
+  opened_at TIMESTAMPTZ,
+  last_error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((state = 'open') = (opened_at IS NOT NULL))
+);
+
+ALTER TABLE public.upstream_breakers ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,155 @@
+
+-- A formula set deactivated for reaching the failure threshold is retired: the
+-- next run no longer activates a fresh set for the same engine, which turned every
+-- retirement into a deactivate/activate pair. The mode stops being predicted until
+-- an operator activates a set (activate_formula_set), or PREDICTION_ENGINES picks
+-- another engine for it.
+ALTER TABLE public.formula_sets ADD COLUMN IF NOT EXISTS retired_at TIMESTAMPTZ;
+
+UPDATE public.formula_sets fs
+SET retired_at = a.created_at
+FROM public.formula_set_activations a
+WHERE a.formula_set_id = fs.id AND NOT a.is_active AND a.reason LIKE '%consecutive failures%';
+
+CREATE OR REPLACE FUNCTION public.record_formula_set_outcome(
+  p_set_id uuid,
+  p_correct boolean,
+  p_failure_threshold integer DEFAULT 10
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_set public.formula_sets;
+BEGIN
+  UPDATE public.formula_sets
+  SET
+    total_predictions = coalesce(total_predictions, 0) + 1,
+    correct_predictions = coalesce(correct_predictions, 0) + CASE WHEN p_correct THEN 1 ELSE 0 END,
+    consecutive_failures = CASE WHEN p_correct THEN 0 ELSE coalesce(consecutive_failures, 0) + 1 END,
+    accuracy = round(
+      (coalesce(correct_predictions, 0) + CASE WHEN p_correct THEN 1 ELSE 0 END)::numeric
+        / (coalesce(total_predictions, 0) + 1),
+      4
+    )
+  WHERE id = p_set_id
+  RETURNING * INTO v_set;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_set.is_active AND v_set.consecutive_failures >= p_failure_threshold THEN
+    PERFORM set_config(
+      'app.formula_set_reason',
+      format('%s consecutive failures (threshold %s)', v_set.consecutive_failures, p_failure_threshold),
+      true
+    );
+    UPDATE public.formula_sets
+    SET is_active = false, deactivated_at = now(), retired_at = now()
+    WHERE id = p_set_id;
+    RETURN false;
+  END IF;
+
+  RETURN coalesce(v_set.is_active, false);
+END;
+$$;
+
+-- One ingest step after the results are stored. Only periods still open can be
+-- predicted, so past periods are never filled in retroactively; each inserted
+-- pick gets a fresh salt and its commitment.
+--   1. settles the pending predictions (may retire formula sets),
+--   2. activates a formula set for each pick's engine when none is active
+--      (or the active set runs another engine), unless that engine's latest set
+--      is retired, in which case the mode's picks are dropped,
+--   3. inserts the supplied picks that do not exist yet, linked to those sets,
+--   4. trims the live window.
+-- p_predictions is a JSON array of
+--   { issue_number, mode, prediction, formula_applied, engine: { id, description } }.
+-- Returns one row per prediction created ('predicted') or settled ('settled').
+CREATE OR REPLACE FUNCTION public.settle_and_predict(
+  p_game text,
+  p_latest_issue text,
+  p_predictions jsonb DEFAULT '[]'::jsonb,
+  p_failure_threshold integer DEFAULT 10
+)
+RETURNS TABLE(change text, issue_number text, mode text, prediction text, correct boolean, formula_set_version integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_live record;
+  v_set public.formula_sets;
+  v_retired text[] := '{}';
+BEGIN
+  RETURN QUERY SELECT * FROM public.settle_pending_predictions(p_game, p_latest_issue, p_failure_threshold);
+
+  FOR v_live IN
+    SELECT DISTINCT ON (x.mode) x.mode, x.engine
+    FROM jsonb_to_recordset(p_predictions) AS x(mode text, engine jsonb)
+    WHERE x.engine IS NOT NULL
+  LOOP
+    SELECT * INTO v_set FROM public.formula_sets fs
+    WHERE fs.game = p_game AND fs.mode = v_live.mode AND fs.is_active;
+
+    IF v_set.id IS NULL OR v_set.engine_id <> v_live.engine->>'id' THEN
+      -- The engine's latest set was retired for failing: the mode waits for an operator
+      IF (SELECT fs.retired_at IS NOT NULL FROM public.formula_sets fs
+          WHERE fs.game = p_game AND fs.mode = v_live.mode AND fs.engine_id = v_live.engine->>'id'
+          ORDER BY fs.version DESC LIMIT 1) THEN
+        v_retired := v_retired || v_live.mode;
+        CONTINUE;
+      END IF;
+
+      PERFORM public.activate_formula_set(
+        v_live.mode,
+        v_live.engine->>'id',
+        jsonb_build_array(v_live.engine),
+        CASE WHEN v_set.id IS NULL THEN 'no active set'
+             ELSE format('engine changed %s → %s', v_set.engine_id, v_live.engine->>'id') END,
+        p_game
+      );
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH picks AS (
+    SELECT x.*, gen_random_uuid()::text AS salt
+    FROM jsonb_to_recordset(p_predictions)
+      AS x(issue_number text, mode text, prediction text, formula_applied jsonb, engine jsonb)
+    -- A period that has already closed can no longer be predicted
+    WHERE now() < public.wingo_period_close_at(p_game, x.issue_number)
+      AND x.mode <> ALL (v_retired)
+  ),
+  inserted AS (
+    INSERT INTO public.predictions AS p
+      (game, issue_number, mode, prediction, formula_applied, formula_set_id, commitment)
+    SELECT p_game, i.issue_number, i.mode, i.prediction, i.formula_applied,
+      (
+        SELECT fs.id FROM public.formula_sets fs
+        WHERE fs.game = p_game AND fs.mode = i.mode AND fs.is_active
+      ),
+      public.wingo_commitment(p_game, i.issue_number, i.mode, i.prediction, i.salt)
+    FROM picks i
+    ON CONFLICT ON CONSTRAINT predictions_game_issue_number_mode_key DO NOTHING
+    RETURNING p.id, p.issue_number, p.mode, p.prediction, p.formula_set_id
+  ),
+  revealed AS (
+    INSERT INTO public.prediction_reveals (prediction_id, salt)
+    SELECT ins.id, i.salt
+    FROM inserted ins
+    JOIN picks i ON i.issue_number = ins.issue_number AND i.mode = ins.mode
+  )
+  SELECT 'predicted'::text, ins.issue_number, ins.mode, ins.prediction, NULL::boolean, fs.version
+  FROM inserted ins
+  LEFT JOIN public.formula_sets fs ON fs.id = ins.formula_set_id
+  ORDER BY ins.issue_number, ins.mode;
+
+  PERFORM public.trim_game_results();
+  PERFORM public.trim_predictions();
+END;
+$$;
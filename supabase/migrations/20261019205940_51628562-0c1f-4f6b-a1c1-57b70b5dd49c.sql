@@ -0,0 +1,74 @@
+
+-- The live window only gives up predictions the archive already holds: pending
+-- rows stay, and a settled row goes only once its archive copy carries the salt
+-- (deleting it cascades to prediction_reveals).
+
+-- Settled rows whose archive copy missed the salt get it from prediction_reveals
+ALTER TABLE public.predictions_archive DISABLE TRIGGER trg_predictions_archive_append_only;
+
+UPDATE public.predictions_archive a
+SET salt = r.salt
+FROM public.prediction_reveals r
+WHERE r.prediction_id = a.id AND a.salt IS NULL;
+
+ALTER TABLE public.predictions_archive ENABLE TRIGGER trg_predictions_archive_append_only;
+
+-- Settled, and archived under the same id together with its salt (if it has one)
+CREATE OR REPLACE FUNCTION public.prediction_is_archived(p_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.predictions p
+    JOIN public.predictions_archive a ON a.id = p.id
+    LEFT JOIN public.prediction_reveals r ON r.prediction_id = p.id
+    WHERE p.id = p_id
+      AND p.correct IS NOT NULL
+      AND a.salt IS NOT DISTINCT FROM r.salt
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.trim_predictions()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_policy public.retention_policies;
+BEGIN
+  SELECT * INTO v_policy FROM public.retention_policies WHERE table_name = 'predictions';
+
+  -- Settled rows that escaped the archive trigger are archived before they can go
+  INSERT INTO public.predictions_archive
+    (id, game, issue_number, mode, prediction, correct, formula_applied, formula_set_id, created_at,
+     commitment, closes_at, salt)
+  SELECT p.id, p.game, p.issue_number, p.mode, p.prediction, p.correct, p.formula_applied, p.formula_set_id, p.created_at,
+    p.commitment, p.closes_at, r.salt
+  FROM public.predictions p
+  LEFT JOIN public.prediction_reveals r ON r.prediction_id = p.id
+  WHERE p.correct IS NOT NULL
+  ON CONFLICT (game, issue_number, mode) DO NOTHING;
+
+  IF v_policy.keep_rows IS NOT NULL THEN
+    DELETE FROM public.predictions p
+    WHERE p.id NOT IN (
+      SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY game, mode ORDER BY issue_number DESC) as rn
+        FROM public.predictions
+      ) sub
+      WHERE rn <= v_policy.keep_rows
+    )
+      AND public.prediction_is_archived(p.id);
+  END IF;
+
+  IF v_policy.keep_days IS NOT NULL THEN
+    DELETE FROM public.predictions p
+    WHERE p.created_at < now() - make_interval(days => v_policy.keep_days)
+      AND public.prediction_is_archived(p.id);
+  END IF;
+END;
+$function$;
@@ -0,0 +1,68 @@
+
+-- The /stats runs and rolling hit rates count the same predictions as
+-- get_prediction_stats: picks written without a commitment are left out.
+CREATE OR REPLACE FUNCTION public.get_rolling_hit_rate(
+  p_game text DEFAULT 'WinGo_30S',
+  p_window integer DEFAULT 50,
+  p_step integer DEFAULT 10,
+  p_points integer DEFAULT 60
+)
+ RETURNS TABLE(mode text, engine_id text, issue_number text, settled integer, hit_rate double precision)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH picks AS (
+    SELECT a.mode, fs.engine_id, a.issue_number, a.correct,
+      row_number() OVER (PARTITION BY a.mode, fs.engine_id ORDER BY a.issue_number) AS rn,
+      count(*) OVER (PARTITION BY a.mode, fs.engine_id) AS total,
+      avg(a.correct::int) OVER (
+        PARTITION BY a.mode, fs.engine_id ORDER BY a.issue_number
+        ROWS BETWEEN greatest(p_window, 1) - 1 PRECEDING AND CURRENT ROW
+      ) AS rate
+    FROM public.predictions_archive a
+    JOIN public.formula_sets fs ON fs.id = a.formula_set_id
+    WHERE a.game = p_game AND a.commitment IS NOT NULL
+  )
+  SELECT p.mode, p.engine_id, p.issue_number, least(p.rn, greatest(p_window, 1))::integer, p.rate::double precision
+  FROM picks p
+  -- Samples are aligned on the latest prediction so the newest point is always included
+  WHERE (p.total - p.rn) % greatest(p_step, 1) = 0
+    AND (p.total - p.rn) / greatest(p_step, 1) < greatest(p_points, 1)
+  ORDER BY p.mode, p.engine_id, p.issue_number;
+END;
+$function$;
+
+-- Lengths of the runs of consecutive wins and losses of committed settled predictions
+CREATE OR REPLACE FUNCTION public.get_streak_distribution(p_mode text, p_game text DEFAULT 'WinGo_30S')
+ RETURNS TABLE(wins boolean, length integer, runs integer)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH ordered AS (
+    SELECT a.correct,
+      row_number() OVER (ORDER BY a.issue_number)
+        - row_number() OVER (PARTITION BY a.correct ORDER BY a.issue_number) AS island
+    FROM public.predictions_archive a
+    WHERE a.game = p_game AND a.mode = p_mode AND a.commitment IS NOT NULL
+  ),
+  islands AS (
+    SELECT o.correct, count(*)::integer AS run_length
+    FROM ordered o
+    GROUP BY o.correct, o.island
+  )
+  SELECT i.correct, i.run_length, count(*)::integer
+  FROM islands i
+  GROUP BY i.correct, i.run_length
+  ORDER BY i.correct DESC, i.run_length;
+END;
+$function$;
@@ -0,0 +1,40 @@
+
+-- The panel no longer reads game_results and predictions directly: a table grant
+-- exposes every column, including the picks of periods still open. Browser roles
+-- lose SELECT again and Realtime stops publishing the tables. Instead each write
+-- broadcasts a notice on the public topic "wingo:<game>" that names the period but
+-- not the pick; the panel refetches through the read functions.
+ALTER PUBLICATION supabase_realtime DROP TABLE public.game_results, public.predictions;
+
+DROP POLICY IF EXISTS "Public can read game_results" ON public.game_results;
+DROP POLICY IF EXISTS "Public can read predictions" ON public.predictions;
+
+REVOKE SELECT ON public.game_results, public.predictions FROM anon, authenticated;
+
+-- Events: "result" { issue_number } and "prediction" { issue_number, mode, settled }
+CREATE OR REPLACE FUNCTION public.broadcast_wingo_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'predictions' THEN
+    PERFORM realtime.send(
+      jsonb_build_object('issue_number', NEW.issue_number, 'mode', NEW.mode, 'settled', NEW.correct IS NOT NULL),
+      'prediction', 'wingo:' || NEW.game, false
+    );
+  ELSE
+    PERFORM realtime.send(jsonb_build_object('issue_number', NEW.issue_number), 'result', 'wingo:' || NEW.game, false);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_game_results_broadcast
+  AFTER INSERT ON public.game_results
+  FOR EACH ROW EXECUTE FUNCTION public.broadcast_wingo_change();
+
+CREATE TRIGGER trg_predictions_broadcast
+  AFTER INSERT OR UPDATE ON public.predictions
+  FOR EACH ROW EXECUTE FUNCTION public.broadcast_wingo_change();
@@ -0,0 +1,103 @@
+
+-- Duplicates and ordering come from what the upstream sent, recorded per ingest
+-- run: the unique key never lets a game store an issue twice, and the insert time
+-- of a backfilled result says nothing about the feed.
+ALTER TABLE public.ingest_runs
+  ADD COLUMN duplicate_issues TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN out_of_order_issues TEXT[] NOT NULL DEFAULT '{}';
+
+-- Holes and anomalies in the newest p_limit archived results of a game.
+--   gap            periods never stored between two stored ones
+--                  (issue_number .. last_issue, missing periods)
+--   duplicate      the upstream repeated the issue within a page
+--   invalid_issue  not a period of the game's calendar
+--   out_of_order   the upstream listed the issue after an older one
+--   bad_number     number outside 0-9
+--   color_mismatch color does not match the number (evens red, odds green, 0 and 5 also violet)
+-- duplicate and out_of_order reach back as far as ingest_runs is retained.
+CREATE OR REPLACE FUNCTION public.get_data_quality(p_game text DEFAULT 'WinGo_30S', p_limit integer DEFAULT 2000)
+ RETURNS TABLE(kind text, issue_number text, last_issue text, missing integer, detail text)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  v_period integer;
+BEGIN
+  SELECT g.period_seconds INTO v_period FROM public.games g WHERE g.id = p_game;
+  IF v_period IS NULL THEN
+    RAISE EXCEPTION 'Unknown game %', p_game;
+  END IF;
+
+  RETURN QUERY
+  WITH recent AS (
+    SELECT a.issue_number, a.number, a.color, a.primary_color, a.violet,
+      public.wingo_issue_is_valid(p_game, a.issue_number) AS valid
+    FROM public.game_results_archive a
+    WHERE a.game = p_game
+    ORDER BY a.issue_number DESC
+    LIMIT least(greatest(p_limit, 1), 20000)
+  ),
+  periods AS (
+    SELECT public.wingo_period_close_at(p_game, r.issue_number) AS closes_at
+    FROM recent r
+    WHERE r.valid
+  ),
+  steps AS (
+    SELECT p.closes_at,
+      lag(p.closes_at) OVER (ORDER BY p.closes_at) AS prev_closes_at
+    FROM periods p
+  ),
+  sent AS (
+    SELECT 'duplicate'::text AS kind, d.issue_number, count(*)::integer AS runs
+    FROM public.ingest_runs u, unnest(u.duplicate_issues) AS d(issue_number)
+    WHERE u.game = p_game
+    GROUP BY d.issue_number
+    UNION ALL
+    SELECT 'out_of_order', o.issue_number, count(*)::integer
+    FROM public.ingest_runs u, unnest(u.out_of_order_issues) AS o(issue_number)
+    WHERE u.game = p_game
+    GROUP BY o.issue_number
+  ),
+  findings AS (
+    -- The first missing period runs from the previous one's close; the last ends where the next starts
+    SELECT 'gap'::text AS kind,
+      public.wingo_issue_number_at(p_game, s.prev_closes_at) AS issue_number,
+      public.wingo_issue_number_at(p_game, s.closes_at - make_interval(secs => 2 * v_period)) AS last_issue,
+      (extract(epoch FROM s.closes_at - s.prev_closes_at)::integer / v_period - 1) AS missing,
+      NULL::text AS detail
+    FROM steps s
+    WHERE s.closes_at - s.prev_closes_at > make_interval(secs => v_period)
+
+    UNION ALL
+    SELECT x.kind, x.issue_number, NULL, NULL,
+      CASE x.kind WHEN 'duplicate' THEN 'repeated' ELSE 'listed after an older issue' END
+        || ' in ' || x.runs || ' upstream page' || CASE WHEN x.runs > 1 THEN 's' ELSE '' END
+    FROM sent x
+    JOIN recent r ON r.issue_number = x.issue_number
+
+    UNION ALL
+    SELECT 'invalid_issue', r.issue_number, NULL, NULL, 'not a period of the ' || p_game || ' calendar'
+    FROM recent r
+    WHERE NOT r.valid
+
+    UNION ALL
+    SELECT 'bad_number', r.issue_number, NULL, NULL, 'number ' || r.number
+    FROM recent r
+    WHERE r.number NOT BETWEEN 0 AND 9
+
+    UNION ALL
+    SELECT 'color_mismatch', r.issue_number, NULL, NULL, 'color "' || r.color || '" for number ' || r.number
+    FROM recent r
+    WHERE r.number BETWEEN 0 AND 9
+      AND (lower(r.color) !~ '(red|green)'
+        OR r.primary_color <> CASE WHEN r.number % 2 = 0 THEN 'RED' ELSE 'GREEN' END
+        OR r.violet <> (r.number IN (0, 5)))
+  )
+  SELECT f.kind, f.issue_number, f.last_issue, f.missing, f.detail
+  FROM findings f
+  ORDER BY f.issue_number DESC, f.kind;
+END;
+$function$;
@@ -0,0 +1,7 @@
+
+-- Gaps an auto backfill walked back to without recovering them (the upstream never
+-- returned the period, or its history no longer reaches that far). Later auto
+-- backfills skip them while the run is retained, instead of walking up to 50
+-- pages inside the ingest lease every cooldown.
+ALTER TABLE public.ingest_runs
+  ADD COLUMN abandoned_gaps TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,185 @@
+
+-- Failure thresholds are set per mode, scaled to the mode's chance rate (see
+-- _shared/formula-sets.ts): one fixed streak of 10 retired a chance-level
+-- number engine within minutes and color or size within a day. A retired engine no
+-- longer stops its mode: the pick's fallback (the mode's chance baseline) is
+-- inserted under a set of its own until an operator activates another set.
+DROP FUNCTION IF EXISTS public.settle_and_predict(text, text, jsonb, integer);
+DROP FUNCTION IF EXISTS public.settle_pending_predictions(text, text, integer);
+
+-- p_failure_thresholds maps each mode to its threshold; a mode missing from it
+-- is never retired
+CREATE FUNCTION public.settle_pending_predictions(
+  p_game text,
+  p_latest_issue text,
+  p_failure_thresholds jsonb DEFAULT '{"color": 20, "size": 20, "number": 110}'::jsonb
+)
+RETURNS TABLE(change text, issue_number text, mode text, prediction text, correct boolean, formula_set_version integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_row record;
+BEGIN
+  FOR v_row IN
+    WITH settled AS (
+      UPDATE public.predictions p
+      SET correct = public.wingo_pick_wins(p.mode, p.prediction, a.number, a.color)
+      FROM public.game_results_archive a
+      WHERE p.game = p_game
+        AND p.correct IS NULL
+        AND p.issue_number <= p_latest_issue
+        AND a.game = p.game
+        AND a.issue_number = p.issue_number
+      RETURNING p.issue_number, p.mode, p.prediction, p.correct, p.formula_set_id
+    )
+    SELECT s.*, fs.version FROM settled s
+    LEFT JOIN public.formula_sets fs ON fs.id = s.formula_set_id
+    ORDER BY s.issue_number, s.mode
+  LOOP
+    IF v_row.formula_set_id IS NOT NULL THEN
+      PERFORM public.record_formula_set_outcome(
+        v_row.formula_set_id,
+        v_row.correct,
+        (p_failure_thresholds->>v_row.mode)::integer
+      );
+    END IF;
+    change := 'settled';
+    issue_number := v_row.issue_number;
+    mode := v_row.mode;
+    prediction := v_row.prediction;
+    correct := v_row.correct;
+    formula_set_version := v_row.version;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- One ingest step after the results are stored. Only periods still open can be
+-- predicted, so past periods are never filled in retroactively; each inserted
+-- pick gets a fresh salt and its commitment.
+--   1. settles the pending predictions (may retire formula sets),
+--   2. activates a formula set for each pick's engine when none is active
+--      (or the active set runs another engine). When that engine's latest set is
+--      retired the mode falls back: a set is activated for the fallback's engine
+--      instead, unless one is already active,
+--   3. inserts the supplied picks that do not exist yet (the fallback for a mode
+--      that fell back), linked to those sets,
+--   4. trims the live window.
+-- p_predictions is a JSON array of
+--   { issue_number, mode, prediction, formula_applied, engine: { id, description },
+--     fallback: { prediction, formula_applied, engine } }.
+-- A mode whose engine is retired and whose picks carry no fallback is not predicted.
+-- Returns one row per prediction created ('predicted') or settled ('settled').
+CREATE FUNCTION public.settle_and_predict(
+  p_game text,
+  p_latest_issue text,
+  p_predictions jsonb DEFAULT '[]'::jsonb,
+  p_failure_thresholds jsonb DEFAULT '{"color": 20, "size": 20, "number": 110}'::jsonb
+)
+RETURNS TABLE(change text, issue_number text, mode text, prediction text, correct boolean, formula_set_version integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_live record;
+  v_set public.formula_sets;
+  v_fallback text[] := '{}';
+  v_stopped text[] := '{}';
+BEGIN
+  RETURN QUERY SELECT * FROM public.settle_pending_predictions(p_game, p_latest_issue, p_failure_thresholds);
+
+  FOR v_live IN
+    SELECT DISTINCT ON (x.mode) x.mode, x.engine, x.fallback
+    FROM jsonb_to_recordset(p_predictions) AS x(mode text, engine jsonb, fallback jsonb)
+    WHERE x.engine IS NOT NULL
+  LOOP
+    SELECT * INTO v_set FROM public.formula_sets fs
+    WHERE fs.game = p_game AND fs.mode = v_live.mode AND fs.is_active;
+
+    IF v_set.id IS NULL OR v_set.engine_id <> v_live.engine->>'id' THEN
+      -- The engine's latest set was retired for failing: the mode falls back
+      IF (SELECT fs.retired_at IS NOT NULL FROM public.formula_sets fs
+          WHERE fs.game = p_game AND fs.mode = v_live.mode AND fs.engine_id = v_live.engine->>'id'
+          ORDER BY fs.version DESC LIMIT 1) THEN
+        IF v_live.fallback->'engine' IS NULL THEN
+          v_stopped := v_stopped || v_live.mode;
+          CONTINUE;
+        END IF;
+        v_fallback := v_fallback || v_live.mode;
+
+        IF v_set.id IS NULL OR v_set.engine_id <> v_live.fallback->'engine'->>'id' THEN
+          PERFORM public.activate_formula_set(
+            v_live.mode,
+            v_live.fallback->'engine'->>'id',
+            jsonb_build_array(v_live.fallback->'engine'),
+            format('fallback: %s retired', v_live.engine->>'id'),
+            p_game
+          );
+        END IF;
+        CONTINUE;
+      END IF;
+
+      PERFORM public.activate_formula_set(
+        v_live.mode,
+        v_live.engine->>'id',
+        jsonb_build_array(v_live.engine),
+        CASE WHEN v_set.id IS NULL THEN 'no active set'
+             ELSE format('engine changed %s → %s', v_set.engine_id, v_live.engine->>'id') END,
+        p_game
+      );
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH picks AS (
+    SELECT
+      x.issue_number,
+      x.mode,
+      CASE WHEN x.mode = ANY (v_fallback) THEN x.fallback->>'prediction' ELSE x.prediction END AS prediction,
+      CASE WHEN x.mode = ANY (v_fallback) THEN x.fallback->'formula_applied' ELSE x.formula_applied END
+        AS formula_applied,
+      gen_random_uuid()::text AS salt
+    FROM jsonb_to_recordset(p_predictions)
+      AS x(issue_number text, mode text, prediction text, formula_applied jsonb, fallback jsonb)
+    -- A period that has already closed can no longer be predicted
+    WHERE now() < public.wingo_period_close_at(p_game, x.issue_number)
+      AND x.mode <> ALL (v_stopped)
+  ),
+  inserted AS (
+    INSERT INTO public.predictions AS p
+      (game, issue_number, mode, prediction, formula_applied, formula_set_id, commitment)
+    SELECT p_game, i.issue_number, i.mode, i.prediction, i.formula_applied,
+      (
+        SELECT fs.id FROM public.formula_sets fs
+        WHERE fs.game = p_game AND fs.mode = i.mode AND fs.is_active
+      ),
+      public.wingo_commitment(p_game, i.issue_number, i.mode, i.prediction, i.salt)
+    FROM picks i
+    ON CONFLICT ON CONSTRAINT predictions_game_issue_number_mode_key DO NOTHING
+    RETURNING p.id, p.issue_number, p.mode, p.prediction, p.formula_set_id
+  ),
+  revealed AS (
+    INSERT INTO public.prediction_reveals (prediction_id, salt)
+    SELECT ins.id, i.salt
+    FROM inserted ins
+    JOIN picks i ON i.issue_number = ins.issue_number AND i.mode = ins.mode
+  )
+  SELECT 'predicted'::text, ins.issue_number, ins.mode, ins.prediction, NULL::boolean, fs.version
+  FROM inserted ins
+  LEFT JOIN public.formula_sets fs ON fs.id = ins.formula_set_id
+  ORDER BY ins.issue_number, ins.mode;
+
+  PERFORM public.trim_game_results();
+  PERFORM public.trim_predictions();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_pending_predictions(text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_and_predict(text, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_pending_predictions(text, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_and_predict(text, text, jsonb, jsonb) TO service_role;
@@ -0,0 +1,130 @@
+-- Run with `supabase test db`. Proves browser roles (anon, authenticated) cannot
+-- write anything and can only read through the granted SECURITY DEFINER functions;
+-- Realtime only carries broadcast notices, never table rows.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(57);
+
+-- ─── GRANTS ─────────────────────────────────────────────────────────
+SELECT table_privs_are('public', t, r, ARRAY[]::text[], format('%s has no privileges on %s', r, t))
+FROM unnest(ARRAY[
+  'game_results', 'predictions', 'formula_sets', 'formula_set_activations',
+  'game_results_archive', 'predictions_archive', 'retention_policies', 'ingest_runs', 'games', 'ingest_locks',
+  'prediction_reveals', 'upstream_breakers'
+]) AS t
+CROSS JOIN unnest(ARRAY['anon', 'authenticated']) AS r;
+
+SELECT is_empty(
+  $$SELECT tablename FROM pg_policies WHERE schemaname = 'public'$$,
+  'no RLS policy opens a public table'
+);
+
+SELECT ok(
+  (SELECT bool_and(c.relrowsecurity) FROM pg_class c
+   JOIN pg_namespace n ON n.oid = c.relnamespace
+   WHERE n.nspname = 'public' AND c.relkind = 'r'),
+  'RLS is enabled on every public table'
+);
+
+-- ─── REALTIME ───────────────────────────────────────────────────────
+SELECT is_empty(
+  $$SELECT tablename FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public'$$,
+  'Realtime publishes no table rows'
+);
+SELECT has_trigger('public', 'game_results', 'trg_game_results_broadcast', 'new results are broadcast');
+SELECT has_trigger('public', 'predictions', 'trg_predictions_broadcast', 'prediction writes are broadcast');
+
+-- Only the read functions are executable by anon
+SELECT is(
+  ARRAY(
+    SELECT p.proname::text FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND has_function_privilege('anon', p.oid, 'EXECUTE')
+    ORDER BY 1
+  ),
+  ARRAY[
+    'get_archived_results', 'get_data_quality', 'get_digit_frequency', 'get_history_with_predictions',
+    'get_hourly_digit_heatmap', 'get_prediction', 'get_prediction_stats', 'get_rolling_hit_rate',
+    'get_streak_distribution', 'server_now', 'verify_predictions'
+  ],
+  'anon can execute only the read functions'
+);
+
+-- ─── AS ANON ────────────────────────────────────────────────────────
+INSERT INTO public.game_results (game, issue_number, number, color)
+VALUES ('WinGo_30S', '20260221100050001', 3, 'green');
+-- Predictions can only be written for open periods, hence a period far ahead
+INSERT INTO public.predictions (game, issue_number, mode, prediction, commitment)
+VALUES ('WinGo_30S', '20991231100050001', 'color', 'RED', 'fixture');
+
+SET LOCAL ROLE anon;
+
+SELECT throws_ok(
+  $$INSERT INTO public.game_results (issue_number, number, color) VALUES ('20260221100050099', 1, 'green')$$,
+  '42501', NULL, 'anon cannot insert game_results'
+);
+SELECT throws_ok($$UPDATE public.game_results SET number = 9$$, '42501', NULL, 'anon cannot update game_results');
+SELECT throws_ok($$DELETE FROM public.game_results$$, '42501', NULL, 'anon cannot delete game_results');
+SELECT throws_ok($$SELECT * FROM public.game_results$$, '42501', NULL, 'anon cannot read game_results directly');
+SELECT throws_ok($$SELECT * FROM public.game_results_archive$$, '42501', NULL, 'anon cannot read the archive directly');
+
+SELECT throws_ok(
+  $$INSERT INTO public.predictions (issue_number, mode, prediction) VALUES ('20260221100050099', 'color', 'RED')$$,
+  '42501', NULL, 'anon cannot insert predictions'
+);
+SELECT throws_ok($$UPDATE public.predictions SET correct = true$$, '42501', NULL, 'anon cannot settle predictions');
+SELECT throws_ok($$DELETE FROM public.predictions$$, '42501', NULL, 'anon cannot delete predictions');
+SELECT throws_ok($$SELECT * FROM public.predictions$$, '42501', NULL, 'anon cannot read open picks directly');
+SELECT throws_ok($$SELECT * FROM public.prediction_reveals$$, '42501', NULL, 'anon cannot read unrevealed salts');
+
+SELECT throws_ok(
+  $$INSERT INTO public.formula_sets (mode, engine_id) VALUES ('color', 'follow_last')$$,
+  '42501', NULL, 'anon cannot insert formula_sets'
+);
+SELECT throws_ok($$UPDATE public.formula_sets SET is_active = false$$, '42501', NULL, 'anon cannot update formula_sets');
+SELECT throws_ok($$DELETE FROM public.formula_sets$$, '42501', NULL, 'anon cannot delete formula_sets');
+
+SELECT throws_ok($$UPDATE public.retention_policies SET keep_rows = 1$$, '42501', NULL, 'anon cannot change retention');
+SELECT throws_ok($$DELETE FROM public.ingest_runs$$, '42501', NULL, 'anon cannot delete ingest_runs');
+
+SELECT throws_ok($$SELECT public.trim_game_results()$$, '42501', NULL, 'anon cannot trim game_results');
+SELECT throws_ok($$SELECT public.trim_predictions()$$, '42501', NULL, 'anon cannot trim predictions');
+SELECT throws_ok($$SELECT public.trim_archives()$$, '42501', NULL, 'anon cannot trim archives');
+SELECT throws_ok($$SELECT public.trim_ingest_runs()$$, '42501', NULL, 'anon cannot trim ingest_runs');
+SELECT throws_ok(
+  $$SELECT public.activate_formula_set('color', 'follow_last')$$,
+  '42501', NULL, 'anon cannot activate formula sets'
+);
+SELECT throws_ok(
+  $$SELECT public.record_formula_set_outcome(gen_random_uuid(), true)$$,
+  '42501', NULL, 'anon cannot record formula set outcomes'
+);
+SELECT throws_ok($$SELECT public.invoke_fetch_wingo_data()$$, '42501', NULL, 'anon cannot trigger ingestion');
+SELECT throws_ok(
+  $$SELECT public.acquire_ingest_lock('WinGo_30S', gen_random_uuid())$$,
+  '42501', NULL, 'anon cannot take the ingest lock'
+);
+
+SELECT results_eq(
+  $$SELECT issue_number, prediction FROM public.get_history_with_predictions('color', 'WinGo_30S')$$,
+  $$VALUES ('20260221100050001'::text, NULL::text)$$,
+  'anon reads history through get_history_with_predictions'
+);
+SELECT results_eq(
+  $$SELECT prediction FROM public.get_prediction('color', '20991231100050001', 'WinGo_30S')$$,
+  $$VALUES ('RED'::text)$$,
+  'anon reads the upcoming prediction through get_prediction'
+);
+
+-- ─── AS AUTHENTICATED ───────────────────────────────────────────────
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok($$UPDATE public.predictions SET correct = true$$, '42501', NULL, 'authenticated cannot settle predictions');
+SELECT throws_ok($$DELETE FROM public.game_results$$, '42501', NULL, 'authenticated cannot delete game_results');
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
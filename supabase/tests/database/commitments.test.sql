@@ -0,0 +1,144 @@
+-- Run with `supabase test db`. Period close times, the commitment guard on
+-- predictions, the commit/reveal check of verify_predictions and what trimming
+-- the live window may delete.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(17);
+
+-- ─── period calendar ────────────────────────────────────────────────
+SELECT is(
+  public.wingo_period_close_at('WinGo_30S', '20260221100050001'),
+  '2026-02-20 18:00:30+00'::timestamptz,
+  'the first period of a day closes 30s after midnight GMT+6'
+);
+SELECT is(
+  public.wingo_period_close_at('WinGo_5M', '20260221100030288'),
+  '2026-02-21 18:00:00+00'::timestamptz,
+  'the last 5m period closes at the next midnight GMT+6'
+);
+SELECT is(
+  public.wingo_issue_number_at('WinGo_30S', '2026-02-20 18:00:29+00'),
+  '20260221100050001',
+  'the first period runs from midnight GMT+6'
+);
+SELECT is(
+  public.wingo_issue_number_at('WinGo_1M', '2026-02-21 17:59:59+00'),
+  '20260221100011440',
+  'the last 1m period ends just before midnight GMT+6'
+);
+
+SELECT is(
+  public.wingo_commitment('WinGo_30S', '20260221100050001', 'color', 'RED', 's3cret'),
+  '557fb27f27d8ce74f85e18e6b58161164a2c1b1682baeb570c97f16391c03d24',
+  'the commitment is the SHA-256 of game|issue|mode|prediction|salt'
+);
+
+-- ─── guard ──────────────────────────────────────────────────────────
+SELECT throws_like(
+  $$INSERT INTO public.predictions (game, issue_number, mode, prediction, commitment)
+    VALUES ('WinGo_30S', '20260221100050001', 'color', 'RED', 'x')$$,
+  '%after its period closed%',
+  'a closed period cannot be predicted'
+);
+SELECT throws_like(
+  $$INSERT INTO public.predictions (game, issue_number, mode, prediction)
+    VALUES ('WinGo_30S', '20991231100050001', 'color', 'RED')$$,
+  '%has no commitment%',
+  'a prediction needs a commitment'
+);
+
+CREATE TEMP TABLE changes ON COMMIT DROP AS
+SELECT * FROM public.settle_and_predict(
+  'WinGo_30S',
+  '20991231100050000',
+  '[{"issue_number": "20991231100050001", "mode": "color", "prediction": "GREEN",
+     "formula_applied": null, "engine": {"id": "follow_last", "description": "fixture"}}]'::jsonb
+);
+
+SELECT ok(
+  (SELECT created_at = now() AND closes_at = public.wingo_period_close_at(game, issue_number)
+   FROM public.predictions WHERE game = 'WinGo_30S' AND issue_number = '20991231100050001'),
+  'the write time and close time are stamped by the database'
+);
+SELECT throws_like(
+  $$UPDATE public.predictions SET prediction = 'RED'
+    WHERE game = 'WinGo_30S' AND issue_number = '20991231100050001'$$,
+  '%immutable%',
+  'a written pick cannot be changed'
+);
+
+-- ─── verify_predictions ─────────────────────────────────────────────
+SELECT is(
+  (SELECT count(*)::int FROM public.verify_predictions('WinGo_30S', '20991231100050001', '20991231100050001')),
+  0,
+  'the salt stays hidden until the period is settled'
+);
+
+INSERT INTO public.game_results (game, issue_number, number, color)
+VALUES ('WinGo_30S', '20991231100050001', 3, 'green');
+DO $$
+BEGIN
+  PERFORM public.settle_pending_predictions('WinGo_30S', '20991231100050001');
+END;
+$$;
+
+SELECT ok(
+  (SELECT commitment_valid AND written_before_close AND salt IS NOT NULL
+   FROM public.verify_predictions('WinGo_30S', '20991231100050001', '20991231100050001')),
+  'a settled pick reveals its salt and verifies'
+);
+SELECT is(
+  (SELECT committed FROM public.get_history_with_predictions('color', 'WinGo_30S')
+   WHERE issue_number = '20991231100050001'),
+  true,
+  'history marks the pick as committed'
+);
+
+-- A row written before commitments existed, after its period had closed
+INSERT INTO public.predictions_archive (id, game, issue_number, mode, prediction, correct, created_at)
+VALUES (gen_random_uuid(), 'WinGo_30S', '20260221100050001', 'color', 'RED', true, '2026-02-20 18:05:00+00');
+
+SELECT is(
+  (SELECT commitment_valid FROM public.verify_predictions('WinGo_30S', '20260221100050001', '20260221100050001')),
+  false,
+  'a pick without a commitment does not verify'
+);
+SELECT is(
+  (SELECT written_before_close FROM public.verify_predictions('WinGo_30S', '20260221100050001', '20260221100050001')),
+  false,
+  'a backfilled pick is flagged as written after the close'
+);
+
+-- ─── trimming ───────────────────────────────────────────────────────
+UPDATE public.retention_policies SET keep_rows = 0, keep_days = NULL WHERE table_name = 'predictions';
+
+CREATE TEMP TABLE trim_changes ON COMMIT DROP AS
+SELECT * FROM public.settle_and_predict(
+  'WinGo_30S',
+  '20991231100050001',
+  '[{"issue_number": "20991231100050002", "mode": "color", "prediction": "RED",
+     "formula_applied": null, "engine": {"id": "follow_last", "description": "fixture"}}]'::jsonb
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM public.predictions p
+    JOIN public.prediction_reveals r ON r.prediction_id = p.id
+    WHERE p.game = 'WinGo_30S' AND p.issue_number = '20991231100050002'
+  ),
+  'a pending pick and its salt survive a trim'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.predictions WHERE game = 'WinGo_30S' AND issue_number = '20991231100050001'),
+  0,
+  'an archived settled pick leaves the live window'
+);
+SELECT ok(
+  (SELECT commitment_valid AND salt IS NOT NULL
+   FROM public.verify_predictions('WinGo_30S', '20991231100050001', '20991231100050001')),
+  'the trimmed pick still verifies from the archive'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
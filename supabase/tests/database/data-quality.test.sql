@@ -0,0 +1,79 @@
+-- Run with `supabase test db`. Gaps and anomalies reported by get_data_quality.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- The 5m day has 288 periods; 20260222 starts at 2026-02-21 18:00 UTC
+INSERT INTO public.game_results_archive (game, issue_number, number, color, created_at) VALUES
+  ('WinGo_5M', '20260221100030287', 7, 'green', now()),
+  ('WinGo_5M', '20260221100030288', 8, 'red', now()),
+  -- 20260222100030001 and 0002 never stored
+  -- Insert times are not checked, even one before the period closed
+  ('WinGo_5M', '20260222100030003', 3, 'green', '2026-02-20 00:00:00+00'),
+  ('WinGo_5M', '20260222100030004', 4, 'green', now()),
+  ('WinGo_5M', '20260222100030005', 12, 'green', now()),
+  ('WinGo_5M', '20260222100030006', 5, 'green', now()),
+  ('WinGo_5M', '20260222100030999', 9, 'green', now());
+
+-- What the upstream pages held; issues outside the window are not reported
+INSERT INTO public.ingest_runs (game, duplicate_issues, out_of_order_issues) VALUES
+  ('WinGo_5M', '{20260222100030004}', '{20260222100030006}'),
+  ('WinGo_5M', '{20260222100030004,20260101100030001}', '{}'),
+  ('WinGo_3M', '{20260222100030003}', '{20260222100030003}');
+
+SELECT results_eq(
+  $$SELECT kind, issue_number FROM public.get_data_quality('WinGo_5M') WHERE issue_number >= '20260221100030287'$$,
+  $$VALUES
+    ('invalid_issue', '20260222100030999'),
+    ('color_mismatch', '20260222100030006'),
+    ('out_of_order', '20260222100030006'),
+    ('bad_number', '20260222100030005'),
+    ('color_mismatch', '20260222100030004'),
+    ('duplicate', '20260222100030004'),
+    ('gap', '20260222100030001')$$,
+  'reports every kind of anomaly, newest first'
+);
+
+SELECT results_eq(
+  $$SELECT last_issue, missing FROM public.get_data_quality('WinGo_5M') WHERE kind = 'gap' AND issue_number = '20260222100030001'$$,
+  $$VALUES ('20260222100030002', 2)$$,
+  'a gap across midnight GMT+6 starts at the next date''s first period'
+);
+
+SELECT is(
+  (SELECT detail FROM public.get_data_quality('WinGo_5M') WHERE kind = 'duplicate' AND issue_number = '20260222100030004'),
+  'repeated in 2 upstream pages',
+  'counts the pages that repeated the issue'
+);
+
+SELECT is(
+  (SELECT detail FROM public.get_data_quality('WinGo_5M') WHERE kind = 'out_of_order'),
+  'listed after an older issue in 1 upstream page',
+  'reports the issue the upstream listed out of order'
+);
+
+SELECT is(
+  ARRAY[
+    public.wingo_issue_is_valid('WinGo_5M', '20260222100030288'),
+    public.wingo_issue_is_valid('WinGo_5M', '20260222100030289'),
+    public.wingo_issue_is_valid('WinGo_5M', '20260230100030001'),
+    public.wingo_issue_is_valid('WinGo_5M', '20260222100050001')
+  ],
+  ARRAY[true, false, false, false],
+  'validates the sequence, the day and the issue code'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_data_quality('WinGo_5M', 3)),
+  4,
+  'only looks at the newest p_limit results'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.get_data_quality('WinGo_10M')$$,
+  'Unknown game WinGo_10M'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,83 @@
+-- Run with `supabase test db`. Accuracy windows, streaks and the /stats aggregates.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+DO $$
+BEGIN
+  PERFORM public.activate_formula_set('size', 'follow_last', '[]'::jsonb, 'fixture', 'WinGo_3M');
+END;
+$$;
+
+-- Oldest to newest: hit, miss, hit, hit, plus an uncommitted hit that none of the
+-- aggregates count
+INSERT INTO public.predictions_archive (id, game, issue_number, mode, prediction, correct, created_at, commitment, formula_set_id)
+SELECT gen_random_uuid(), 'WinGo_3M', x.issue_number, 'size', x.prediction, x.correct, now(), x.commitment, fs.id
+FROM (VALUES
+  ('20260221100020001', 'BIG', true, 'c1'),
+  ('20260221100020002', 'BIG', false, 'c2'),
+  ('20260221100020003', 'SMALL', true, 'c3'),
+  ('20260221100020004', 'SMALL', true, 'c4'),
+  ('20260221100020005', 'BIG', true, NULL)
+) AS x(issue_number, prediction, correct, commitment)
+CROSS JOIN public.formula_sets fs
+WHERE fs.game = 'WinGo_3M' AND fs.mode = 'size' AND fs.is_active;
+
+INSERT INTO public.game_results_archive (game, issue_number, number, color, created_at) VALUES
+  ('WinGo_3M', '20260221100020001', 7, 'green', now()),
+  ('WinGo_3M', '20260221100020002', 7, 'green', now()),
+  ('WinGo_3M', '20260221100020021', 0, 'red,violet', now());
+
+-- ─── get_prediction_stats ───────────────────────────────────────────
+SELECT results_eq(
+  $$SELECT settled_all, hits_all, settled_50, hits_50 FROM public.get_prediction_stats('size', 'WinGo_3M')$$,
+  $$VALUES (4, 3, 4, 3)$$,
+  'counts committed settled predictions only'
+);
+
+SELECT results_eq(
+  $$SELECT streak_length, streak_wins FROM public.get_prediction_stats('size', 'WinGo_3M')$$,
+  $$VALUES (2, true)$$,
+  'reports the current run of wins'
+);
+
+SELECT results_eq(
+  $$SELECT settled_all, streak_length, streak_wins FROM public.get_prediction_stats('color', 'WinGo_3M')$$,
+  $$VALUES (0, 0, NULL::boolean)$$,
+  'an empty history has no streak'
+);
+
+-- ─── /stats aggregates ──────────────────────────────────────────────
+SELECT results_eq(
+  $$SELECT wins, length, runs FROM public.get_streak_distribution('size', 'WinGo_3M')$$,
+  $$VALUES (true, 1, 1), (true, 2, 1), (false, 1, 1)$$,
+  'groups committed settled predictions into runs of wins and losses'
+);
+
+SELECT results_eq(
+  $$SELECT digit, draws FROM public.get_digit_frequency('WinGo_3M') WHERE draws > 0$$,
+  $$VALUES (0, 1), (7, 2)$$,
+  'counts draws per digit'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_digit_frequency('WinGo_3M')),
+  10,
+  'every digit has a row, drawn or not'
+);
+
+SELECT results_eq(
+  $$SELECT hour, digit, draws FROM public.get_hourly_digit_heatmap('WinGo_3M')$$,
+  $$VALUES (0, 7, 2), (1, 0, 1)$$,
+  'places 3m period 21 in the second hour after midnight GMT+6'
+);
+
+SELECT results_eq(
+  $$SELECT issue_number, settled, hit_rate FROM public.get_rolling_hit_rate('WinGo_3M', 2, 1, 2)$$,
+  $$VALUES ('20260221100020003'::text, 2, 0.5::double precision), ('20260221100020004', 2, 1.0)$$,
+  'rolls the hit rate over committed predictions, latest samples only'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,157 @@
+-- Run with `supabase test db`. Settlement rules and the settle_and_predict step
+-- against a small fixture of drawn periods.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(18);
+
+-- ─── wingo_pick_wins ────────────────────────────────────────────────
+SELECT ok(public.wingo_pick_wins('color', 'RED', 0, 'red,violet'), 'RED wins on 0');
+SELECT ok(public.wingo_pick_wins('color', 'VIOLET', 0, 'red,violet'), 'VIOLET wins on 0');
+SELECT ok(public.wingo_pick_wins('color', 'VIOLET', 5, 'green,violet'), 'VIOLET wins on 5');
+SELECT ok(NOT public.wingo_pick_wins('color', 'VIOLET', 6, 'red'), 'VIOLET loses on 6');
+SELECT ok(public.wingo_pick_wins('size', 'SMALL', 4, 'red'), 'SMALL wins on 4');
+SELECT ok(public.wingo_pick_wins('number', '7', 7, 'green'), 'exact number wins');
+
+-- ─── settle_and_predict ─────────────────────────────────────────────
+-- Fixture: three drawn periods, one pending color pick linked to an active set
+-- whose next miss reaches the failure threshold; size has no set yet. Predictions are only accepted
+-- for open periods, so the fixture lives far ahead in 2099.
+INSERT INTO public.game_results (game, issue_number, number, color) VALUES
+  ('WinGo_1M', '20991231100010001', 3, 'green'),
+  ('WinGo_1M', '20991231100010002', 0, 'red,violet'),
+  ('WinGo_1M', '20991231100010003', 7, 'green');
+
+DO $$
+BEGIN
+  PERFORM public.activate_formula_set('color', 'follow_last', '[]'::jsonb, 'fixture', 'WinGo_1M');
+END;
+$$;
+UPDATE public.formula_sets SET consecutive_failures = 1 WHERE game = 'WinGo_1M' AND is_active;
+
+INSERT INTO public.predictions (game, issue_number, mode, prediction, formula_set_id, commitment)
+SELECT 'WinGo_1M', '20991231100010003', 'color', 'RED', id, 'fixture'
+FROM public.formula_sets WHERE game = 'WinGo_1M' AND mode = 'color' AND is_active;
+
+CREATE TEMP TABLE changes ON COMMIT DROP AS
+SELECT * FROM public.settle_and_predict(
+  'WinGo_1M',
+  '20991231100010003',
+  '[
+    {"issue_number": "20991231100010004", "mode": "color", "prediction": "GREEN",
+     "formula_applied": {"id": "follow_last"}, "engine": {"id": "follow_last", "description": "fixture"},
+     "fallback": {"prediction": "RED", "formula_applied": {"id": "random_5050"},
+                  "engine": {"id": "random_5050", "description": "baseline"}}},
+    {"issue_number": "20991231100010004", "mode": "size", "prediction": "BIG",
+     "formula_applied": {"id": "follow_last"}, "engine": {"id": "follow_last", "description": "fixture"}},
+    {"issue_number": "20991231100010003", "mode": "color", "prediction": "GREEN",
+     "formula_applied": {"id": "follow_last"}, "engine": {"id": "follow_last", "description": "fixture"}},
+    {"issue_number": "20260221100010002", "mode": "color", "prediction": "VIOLET",
+     "formula_applied": {"id": "follow_last"}, "engine": {"id": "follow_last", "description": "fixture"}}
+  ]'::jsonb,
+  '{"color": 2, "size": 2, "number": 2}'::jsonb
+);
+
+SELECT results_eq(
+  $$SELECT change, issue_number, prediction, correct FROM changes ORDER BY change, issue_number, mode$$,
+  $$VALUES
+    ('predicted'::text, '20991231100010004'::text, 'RED'::text, NULL::boolean),
+    ('predicted', '20991231100010004', 'BIG', NULL),
+    ('settled', '20991231100010003', 'RED', false)$$,
+  'inserts only missing picks, the fallback for a retired engine, and settles every pending one'
+);
+
+SELECT is(
+  (SELECT prediction FROM public.predictions WHERE game = 'WinGo_1M' AND issue_number = '20991231100010003' AND mode = 'color'),
+  'RED',
+  'the existing pick is kept and settled, not replaced'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.predictions WHERE game = 'WinGo_1M' AND issue_number = '20260221100010002'),
+  0,
+  'a period that already closed is not predicted'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.predictions_archive WHERE game = 'WinGo_1M'),
+  1,
+  'settled picks are archived'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.formula_sets WHERE game = 'WinGo_1M' AND mode = 'color' AND NOT is_active),
+  1,
+  'the miss that reached the threshold retired the set'
+);
+
+SELECT ok(
+  (SELECT fs.is_active AND fs.engine_id = 'random_5050' AND fs.version = 2 FROM public.predictions p
+   JOIN public.formula_sets fs ON fs.id = p.formula_set_id
+   WHERE p.game = 'WinGo_1M' AND p.issue_number = '20991231100010004' AND p.mode = 'color'),
+  'the retired engine is not given a fresh set: color falls back to its baseline under a set of its own'
+);
+
+SELECT ok(
+  (SELECT fs.is_active AND fs.version = 1 FROM public.predictions p
+   JOIN public.formula_sets fs ON fs.id = p.formula_set_id
+   WHERE p.game = 'WinGo_1M' AND p.issue_number = '20991231100010004' AND p.mode = 'size'),
+  'the live pick is linked to the set active when it was inserted'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM changes WHERE change = 'predicted'
+   AND issue_number = '20991231100010004' AND formula_set_version IS NOT NULL),
+  2,
+  'the live picks report their formula set version'
+);
+
+SELECT ok(
+  (SELECT p.commitment = public.wingo_commitment(p.game, p.issue_number, p.mode, p.prediction, r.salt)
+   FROM public.predictions p
+   JOIN public.prediction_reveals r ON r.prediction_id = p.id
+   WHERE p.game = 'WinGo_1M' AND p.issue_number = '20991231100010004' AND p.mode = 'size'),
+  'the live pick is committed to with a stored salt'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.settle_and_predict('WinGo_1M', '20991231100010003', '[]'::jsonb)),
+  0,
+  'a second call has nothing left to do'
+);
+
+SELECT results_eq(
+  $$SELECT change, issue_number, prediction, formula_set_version FROM public.settle_and_predict(
+    'WinGo_1M',
+    '20991231100010003',
+    '[{"issue_number": "20991231100010005", "mode": "color", "prediction": "GREEN",
+       "formula_applied": {"id": "follow_last"}, "engine": {"id": "follow_last", "description": "fixture"},
+       "fallback": {"prediction": "RED", "formula_applied": {"id": "random_5050"},
+                    "engine": {"id": "random_5050", "description": "baseline"}}}]'::jsonb
+  )$$,
+  $$VALUES ('predicted'::text, '20991231100010005'::text, 'RED'::text, 2)$$,
+  'the fallback keeps its set on later runs'
+);
+
+-- An operator brings the engine back
+DO $$
+BEGIN
+  PERFORM public.activate_formula_set('color', 'follow_last', '[]'::jsonb, 'operator', 'WinGo_1M');
+END;
+$$;
+
+SELECT results_eq(
+  $$SELECT change, issue_number, prediction, formula_set_version FROM public.settle_and_predict(
+    'WinGo_1M',
+    '20991231100010003',
+    '[{"issue_number": "20991231100010006", "mode": "color", "prediction": "GREEN",
+       "formula_applied": {"id": "follow_last"}, "engine": {"id": "follow_last", "description": "fixture"},
+       "fallback": {"prediction": "RED", "formula_applied": {"id": "random_5050"},
+                    "engine": {"id": "random_5050", "description": "baseline"}}}]'::jsonb
+  )$$,
+  $$VALUES ('predicted'::text, '20991231100010006'::text, 'GREEN'::text, 3)$$,
+  'a set activated by an operator brings the engine back in place of the fallback'
+);
+
+SELECT * FROM finish();
+ROLLBACK;